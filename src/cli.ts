@@ -0,0 +1,364 @@
+#!/usr/bin/env node
+/**
+ * moltbot-memory CLI
+ *
+ * Inspect and maintain a memory store from the shell:
+ *
+ *   moltbot-memory stats
+ *   moltbot-memory search "deploy plan" --mode hybrid --from 2026-01-01
+ *   moltbot-memory forget --query "old address" --dry-run
+ *
+ * Commands print tables, or JSON with --json. Unless --model is given, the
+ * store is opened with the embedding model its vectors were made with, so
+ * running the CLI never starts a model switch.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { parseArgs } from 'util';
+import { LocalMemoryPlugin, Memory, MemoryRecallParams, PluginConfig } from './index.js';
+import { providerForId } from './embeddings.js';
+import { HANDLER_SCHEMAS } from './handler-schemas.js';
+import { assertValid, ValidationError } from './validation.js';
+import type { HandlerName } from './handler-schemas.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Usage
+// ─────────────────────────────────────────────────────────────────────────────
+
+const USAGE = `Usage: moltbot-memory <command> [options]
+
+Commands:
+  stats                     Memory counts, embedding model and categories
+  search <query>            Recall memories
+      --mode <mode>         auto, semantic, structured or hybrid (default auto)
+      --category <name>     Only this category
+      --from <date>         Created on or after (ISO date or timestamp)
+      --to <date>           Created on or before
+      --session <key>       Only this session
+      --limit <n>           Maximum results (default 5)
+  get <id>                  Show one memory
+  forget <id>               Move a memory to the trash
+      --query <text>        Forget the memories matching a query instead
+      --dry-run             Show what would be forgotten
+      --permanent           Erase instead of moving to the trash
+      --reason <text>       Recorded in the audit log
+  export <path>             Write every memory to a JSONL file
+      --vectors             Include vectors
+      --plaintext           Don't encrypt the export of an encrypted store
+  import <path>             Read memories from a JSONL export
+      --on-conflict <mode>  skip, overwrite or merge (default skip)
+  reindex                   Embed memories that have no vector
+  repair                    Fix vectors that disagree with SQLite
+  vacuum                    Reclaim disk space
+  doctor                    Check the store for problems
+
+Options:
+  --data-dir <dir>          Store directory (default $MOLTBOT_MEMORY_DIR or ~/.moltbot/memory)
+  --key-file <file>         Encryption key (default $MOLTBOT_MEMORY_KEY)
+  --model <id>              Embedding model id as shown by stats; a different one switches the store's model
+  --no-embeddings           Open without LanceDB (no semantic search, no vectors)
+  --json                    Print JSON
+  -h, --help                Show this help`;
+
+const OPTIONS = {
+  'data-dir': { type: 'string' },
+  'key-file': { type: 'string' },
+  model: { type: 'string' },
+  'no-embeddings': { type: 'boolean' },
+  json: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+  mode: { type: 'string' },
+  category: { type: 'string' },
+  from: { type: 'string' },
+  to: { type: 'string' },
+  session: { type: 'string' },
+  limit: { type: 'string' },
+  query: { type: 'string' },
+  'dry-run': { type: 'boolean' },
+  permanent: { type: 'boolean' },
+  reason: { type: 'string' },
+  vectors: { type: 'boolean' },
+  plaintext: { type: 'boolean' },
+  'on-conflict': { type: 'string' },
+} as const;
+
+type CliOptions = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Formatting
+// ─────────────────────────────────────────────────────────────────────────────
+
+function table(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, i) => Math.max(header.length, ...rows.map(row => row[i].length)));
+  // The last column is not padded, so long text doesn't leave trailing spaces
+  const line = (cells: string[]) => cells.map((cell, i) => (i < cells.length - 1 ? cell.padEnd(widths[i]) : cell)).join('  ');
+  return [line(headers), line(widths.map(width => '-'.repeat(width))), ...rows.map(line)].join('\n');
+}
+
+function truncate(text: string, length: number): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > length ? `${flat.slice(0, length - 3)}...` : flat;
+}
+
+function timestamp(iso: string | undefined): string {
+  return iso ? iso.slice(0, 16).replace('T', ' ') : '';
+}
+
+function memoryTable(memories: Memory[]): string {
+  if (memories.length === 0) return 'No memories found.';
+  return table(
+    ['ID', 'CATEGORY', 'IMPORTANCE', 'CREATED', 'TEXT'],
+    memories.map(m => [m.id, m.category, m.importance.toFixed(2), timestamp(m.createdAt), truncate(m.text, 60)])
+  );
+}
+
+function bytes(count: number): string {
+  if (count < 1024) return `${count} B`;
+  if (count < 1024 * 1024) return `${(count / 1024).toFixed(1)} KB`;
+  return `${(count / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Commands
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface CommandOutput {
+  result: unknown; // printed with --json
+  text: string; // printed otherwise
+  failed?: boolean; // exit with status 1
+}
+
+type Command = (memory: LocalMemoryPlugin, args: string[], options: CliOptions) => Promise<CommandOutput>;
+
+// Build params the way the matching handler would accept them, so flags get the same checks
+function handlerParams<T>(handler: HandlerName, params: T): T {
+  const defined = Object.fromEntries(Object.entries(params as object).filter(([, value]) => value !== undefined));
+  assertValid(handler, defined, HANDLER_SCHEMAS[handler].parameters);
+  return defined as T;
+}
+
+function integer(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  if (!/^\d+$/.test(value)) throw new UsageError(`${flag} must be a whole number, got "${value}"`);
+  return Number(value);
+}
+
+function argument(args: string[], name: string): string {
+  if (args.length !== 1) throw new UsageError(`Expected exactly one <${name}>`);
+  return args[0];
+}
+
+const COMMANDS: Record<string, Command> = {
+  async stats(memory) {
+    const stats = memory.stats();
+    const rows = [
+      ['memories', String(stats.total)],
+      ['with embeddings', String(stats.withEmbeddings)],
+      ['in trash', String(stats.inTrash)],
+      ['embedding model', stats.embeddingModel ?? '(none yet)'],
+      ...Object.entries(stats.byCategory).sort(([a], [b]) => a.localeCompare(b)).map(([category, count]) => [`  ${category}`, String(count)]),
+    ];
+    return { result: stats, text: table(['STAT', 'VALUE'], rows) };
+  },
+
+  async search(memory, args, options) {
+    if (args.length === 0) throw new UsageError('Expected a <query>');
+    const params = handlerParams<MemoryRecallParams>('memory_recall', {
+      query: args.join(' '),
+      mode: options.mode as MemoryRecallParams['mode'],
+      category: options.category as MemoryRecallParams['category'],
+      dateFrom: options.from,
+      dateTo: options.to,
+      sessionKey: options.session,
+      limit: integer(options.limit, '--limit'),
+    });
+    const memories = await memory.recall(params);
+    return { result: memories, text: memoryTable(memories) };
+  },
+
+  async get(memory, args) {
+    const id = argument(args, 'id');
+    const found = memory.get({ memoryId: id });
+    if (!found) return { result: null, text: `No memory with id ${id}.`, failed: true };
+
+    const rows = [
+      ['id', found.id],
+      ['category', found.category],
+      ['importance', found.importance.toFixed(2)],
+      ['created', found.createdAt],
+      ['updated', found.updatedAt],
+      ['session', found.sessionKey ?? ''],
+      ['tags', (found.tags ?? []).join(', ')],
+      ['metadata', found.metadata ? JSON.stringify(found.metadata) : ''],
+      ['text', found.text],
+    ];
+    return { result: found, text: table(['FIELD', 'VALUE'], rows.filter(([, value]) => value !== '')) };
+  },
+
+  async forget(memory, args, options) {
+    if (options.query === undefined && args.length === 0) throw new UsageError('Expected an <id> or --query');
+    if (options.query !== undefined && args.length > 0) throw new UsageError('Pass an <id> or --query, not both');
+
+    const params = handlerParams('memory_forget', {
+      memoryId: options.query === undefined ? argument(args, 'id') : undefined,
+      query: options.query,
+      dryRun: options['dry-run'],
+      permanent: options.permanent,
+      reason: options.reason,
+      actor: 'cli',
+    });
+    const result = await memory.forget(params);
+
+    if (params.dryRun) {
+      const text = `Would forget ${result.deleted} memories:\n${memoryTable(result.memories ?? [])}`;
+      return { result, text };
+    }
+    const action = params.permanent ? 'Erased' : 'Moved to the trash:';
+    return { result, text: `${action} ${result.deleted} memories.` };
+  },
+
+  async export(memory, args, options) {
+    const path = argument(args, 'path');
+    const result = await memory.exportMemories({ path, includeVectors: options.vectors, plaintext: options.plaintext });
+    return { result, text: `Exported ${result.exported} memories to ${path}.` };
+  },
+
+  async import(memory, args, options) {
+    const params = handlerParams('memory_import', {
+      path: argument(args, 'path'),
+      onConflict: options['on-conflict'] as 'skip' | 'overwrite' | 'merge' | undefined,
+    });
+    const result = await memory.importMemories(params);
+    await memory.waitForIdle();
+    const text = table(['RESULT', 'COUNT'], Object.entries(result).map(([key, count]) => [key, String(count)]));
+    return { result, text };
+  },
+
+  async reindex(memory) {
+    const queued = memory.reindex();
+    await memory.waitForIdle();
+    const stats = memory.stats();
+    const result = { queued, withEmbeddings: stats.withEmbeddings, total: stats.total };
+    return { result, text: `Queued ${queued} memories; ${stats.withEmbeddings} of ${stats.total} now have vectors.` };
+  },
+
+  async repair(memory) {
+    const result = await memory.repair();
+    await memory.waitForIdle();
+    const text = result.consistent
+      ? 'Nothing to repair.'
+      : `Deleted ${result.orphanVectors.length} orphan vectors, queued ${result.missingVectors.length} missing vectors, ` +
+        `rebuilt ${result.dimensionMismatches.length} tables.`;
+    return { result, text };
+  },
+
+  async vacuum(memory) {
+    const result = await memory.vacuum();
+    const text =
+      `memories.db: ${bytes(result.bytesBefore)} -> ${bytes(result.bytesAfter)}\n` +
+      `old vector versions removed: ${bytes(result.vectorBytesRemoved)}`;
+    return { result, text };
+  },
+
+  async doctor(memory) {
+    const checks = await memory.doctor();
+    const text = table(['STATUS', 'CHECK', 'DETAIL'], checks.map(c => [c.status.toUpperCase(), c.name, c.detail]));
+    return { result: checks, text, failed: checks.some(c => c.status === 'fail') };
+  },
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Store
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function open(config: PluginConfig): Promise<LocalMemoryPlugin> {
+  const memory = new LocalMemoryPlugin(config);
+  await memory.init();
+  return memory;
+}
+
+async function openStore(command: string, options: CliOptions): Promise<LocalMemoryPlugin> {
+  const dataDir = options['data-dir'] ?? process.env.MOLTBOT_MEMORY_DIR;
+  if (dataDir && command !== 'import' && !existsSync(join(dataDir, 'memories.db'))) {
+    throw new UsageError(`No memory store in ${dataDir}`);
+  }
+
+  const keyFile = options['key-file'];
+  const encryptionKey = keyFile ? readFileSync(keyFile, 'utf8').replace(/\r?\n$/, '') : process.env.MOLTBOT_MEMORY_KEY;
+  // Nothing runs long enough for scheduled retention; init() still applies it once
+  const config: PluginConfig = { dataDir, encryptionKey, retentionIntervalMs: 0 };
+
+  if (options['no-embeddings']) return open({ ...config, enableEmbeddings: false });
+  if (options.model) {
+    const embeddingProvider = providerForId(options.model);
+    if (!embeddingProvider) throw new UsageError(`--model can't be ${options.model}; the CLI can't recreate that provider`);
+    return open({ ...config, embeddingProvider });
+  }
+
+  // Find the model the stored vectors were made with, without loading LanceDB
+  const probe = await open({ ...config, enableEmbeddings: false, access: 'read' });
+  const model = probe.stats().embeddingModel;
+  probe.close();
+  if (!model) return open(config);
+
+  const embeddingProvider = providerForId(model);
+  if (!embeddingProvider) {
+    console.error(`moltbot-memory: the CLI can't recreate ${model}; opening without embeddings`);
+    return open({ ...config, enableEmbeddings: false });
+  }
+  return open({ ...config, embeddingProvider });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Main
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Run the CLI with `argv` (without the node and script paths). Returns the
+ * exit status: 0 on success, 1 when the command failed, 2 on a usage error.
+ */
+async function main(argv: string[]): Promise<number> {
+  let options: CliOptions;
+  let positionals: string[];
+  try {
+    ({ values: options, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true }));
+  } catch (err) {
+    console.error(`moltbot-memory: ${err instanceof Error ? err.message : String(err)}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const [command, ...args] = positionals;
+  if (options.help || !command) {
+    console.log(USAGE);
+    return options.help ? 0 : 2;
+  }
+  const run = COMMANDS[command];
+  if (!run) {
+    console.error(`moltbot-memory: unknown command "${command}"\n\n${USAGE}`);
+    return 2;
+  }
+
+  let memory: LocalMemoryPlugin | null = null;
+  try {
+    memory = await openStore(command, options);
+    const output = await run(memory, args, options);
+    console.log(options.json ? JSON.stringify(output.result, null, 2) : output.text);
+    return output.failed ? 1 : 0;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`moltbot-memory: ${message}`);
+    return err instanceof UsageError || err instanceof ValidationError ? 2 : 1;
+  } finally {
+    memory?.close();
+  }
+}
+
+process.exitCode = await main(process.argv.slice(2));
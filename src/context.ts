@@ -0,0 +1,146 @@
+/**
+ * Context packing
+ *
+ * Picks recalled memories to fill a prompt token budget and formats them as a
+ * block to inject. Selection is maximal marginal relevance (MMR): each pick is
+ * the candidate that best balances relevance against similarity to what was
+ * already picked, so near-duplicates don't crowd out other memories. Similarity
+ * uses the embeddings, or shared words for memories without a vector.
+ */
+
+import type { Memory } from './index.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Tokens `text` takes in the prompt; plug in the model's tokenizer for exact counts */
+export type TokenCounter = (text: string) => number;
+
+/** One memory as it appears in the context block */
+export type MemoryFormatter = (memory: Memory) => string;
+
+export interface ContextConfig {
+  tokenCounter?: TokenCounter; // default: approximateTokens
+  formatMemory?: MemoryFormatter; // default: "- [category, date] text"
+  header?: string; // first line of the block; '' for none
+  diversity?: number; // 0-1: 0 ranks by relevance only, higher favors memories unlike those picked (default 0.5)
+}
+
+export interface PackCandidate {
+  memory: Memory;
+  vector?: number[];
+}
+
+export interface PackOptions {
+  budget: number; // tokens available for memory lines
+  cost: (memory: Memory) => number;
+  diversity: number;
+  maxItems?: number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Defaults
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Local estimate for BPE tokenizers: about four characters per token, and at
+ * least one token per word or punctuation mark. Errs on the high side.
+ */
+export function approximateTokens(text: string): number {
+  const pieces = text.match(/[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu)?.length ?? 0;
+  return Math.max(Math.ceil(text.length / 4), pieces);
+}
+
+export function formatMemoryLine(memory: Memory): string {
+  return `- [${memory.category}, ${memory.createdAt.slice(0, 10)}] ${memory.text.replace(/\s+/g, ' ').trim()}`;
+}
+
+export const DEFAULT_CONTEXT_CONFIG: Required<ContextConfig> = {
+  tokenCounter: approximateTokens,
+  formatMemory: formatMemoryLine,
+  header: 'Relevant memories:',
+  diversity: 0.5,
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Similarity
+// ─────────────────────────────────────────────────────────────────────────────
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  const union = a.size + b.size - shared;
+  return union === 0 ? 0 : shared / union;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Selection
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Greedy MMR within a token budget. `candidates` are in ranked order; a
+ * candidate too long for what is left is passed over for shorter ones.
+ * Returns the picks in the order they were picked.
+ */
+export function selectWithinBudget(candidates: PackCandidate[], options: PackOptions): Memory[] {
+  const pool = candidates.map((candidate, rank) => ({
+    ...candidate,
+    // Rank, not raw score: scores aren't comparable across search modes
+    relevance: 1 - rank / candidates.length,
+    cost: options.cost(candidate.memory),
+    words: words(candidate.memory.text),
+  }));
+  const picked: typeof pool = [];
+  let remaining = options.budget;
+
+  const similarity = (a: (typeof pool)[number], b: (typeof pool)[number]) =>
+    a.vector && b.vector && a.vector.length === b.vector.length ? cosine(a.vector, b.vector) : jaccard(a.words, b.words);
+
+  while (pool.length > 0 && (options.maxItems === undefined || picked.length < options.maxItems)) {
+    let best = -1;
+    let bestScore = -Infinity;
+    for (let i = 0; i < pool.length; i++) {
+      if (pool[i].cost > remaining) continue;
+      const redundancy = picked.length === 0 ? 0 : Math.max(...picked.map(p => similarity(pool[i], p)));
+      const score = (1 - options.diversity) * pool[i].relevance - options.diversity * redundancy;
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    }
+    if (best === -1) break;
+
+    const [choice] = pool.splice(best, 1);
+    picked.push(choice);
+    remaining -= choice.cost;
+  }
+
+  return picked.map(p => p.memory);
+}
+
+/**
+ * The block to inject: the header, then one line per memory. Empty when
+ * there are no memories.
+ */
+export function formatContext(memories: Memory[], config: Required<ContextConfig>): string {
+  if (memories.length === 0) return '';
+  const lines = memories.map(config.formatMemory);
+  return (config.header ? [config.header, ...lines] : lines).join('\n');
+}
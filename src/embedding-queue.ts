@@ -0,0 +1,166 @@
+/**
+ * Background embedding queue
+ *
+ * Jobs live in the SQLite embedding_jobs table (see migrations), so work queued
+ * before a restart - or before the model finished loading - is picked up again
+ * on the next init(). The queue only owns scheduling: batching, retries with
+ * exponential backoff, and draining. Storage and embedding are delegated to
+ * the backend the plugin provides.
+ */
+
+import type { Logger } from './observability.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface EmbeddingJob {
+  memoryId: string;
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+export interface EmbeddingBatchResult {
+  failures: Map<string, Error>;
+  superseded: string[]; // memories edited while being embedded; their jobs stay queued for another pass
+}
+
+export interface EmbeddingQueueConfig {
+  batchSize?: number;
+  maxAttempts?: number; // jobs are dropped after this many failures; reindex() re-queues them
+  retryDelayMs?: number; // first retry delay, doubled per attempt
+  maxRetryDelayMs?: number;
+}
+
+export interface EmbeddingQueueBackend {
+  /** Jobs whose next attempt is due at or before `now`, oldest first */
+  dueJobs(now: number, limit: number): EmbeddingJob[];
+  /** Earliest next attempt time of any queued job, or null if the queue is empty */
+  nextDueAt(): number | null;
+  /** Embed and store a batch */
+  process(jobs: EmbeddingJob[]): Promise<EmbeddingBatchResult>;
+  /** Remove finished jobs, unless they were queued again (changed attempts or due time) meanwhile */
+  complete(jobs: EmbeddingJob[]): void;
+  retry(memoryId: string, attempts: number, nextAttemptAt: number, error: string): void;
+  abandon(memoryId: string, attempts: number, error: string): void;
+}
+
+export const DEFAULT_EMBEDDING_QUEUE_CONFIG: Required<EmbeddingQueueConfig> = {
+  batchSize: 16,
+  maxAttempts: 5,
+  retryDelayMs: 1000,
+  maxRetryDelayMs: 5 * 60 * 1000,
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Queue
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class EmbeddingQueue {
+  private config: Required<EmbeddingQueueConfig>;
+  private running: Promise<void> | null = null;
+  private rerun = false;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private stopped = false;
+
+  constructor(
+    private backend: EmbeddingQueueBackend,
+    config: EmbeddingQueueConfig = {},
+    private logger: () => Logger = () => console
+  ) {
+    this.config = { ...DEFAULT_EMBEDDING_QUEUE_CONFIG, ...config };
+  }
+
+  /**
+   * Start draining due jobs if not already running
+   */
+  kick(): void {
+    if (this.stopped) return;
+    if (this.running) {
+      this.rerun = true;
+      return;
+    }
+
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    // A failing backend call (e.g. the journal can't be written) stops this
+    // drain; jobs stay queued for the next kick
+    this.running = this.drain().catch(err => {
+      if (!this.stopped) this.logger().error('Background embedding failed:', err);
+    }).finally(() => {
+      this.running = null;
+      if (this.rerun) {
+        this.rerun = false;
+        this.kick();
+      } else {
+        this.scheduleRetry();
+      }
+    });
+  }
+
+  /**
+   * Resolves once no batch is in flight and no job is due.
+   * Jobs waiting out a retry backoff do not block.
+   */
+  async waitForIdle(): Promise<void> {
+    while (this.running) {
+      await this.running;
+    }
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private async drain(): Promise<void> {
+    while (!this.stopped) {
+      const jobs = this.backend.dueJobs(Date.now(), this.config.batchSize);
+      if (jobs.length === 0) return;
+
+      let result: EmbeddingBatchResult;
+      try {
+        result = await this.backend.process(jobs);
+      } catch (err) {
+        result = { failures: new Map(jobs.map(job => [job.memoryId, err as Error])), superseded: [] };
+      }
+      if (this.stopped) return;
+
+      const { failures } = result;
+      const superseded = new Set(result.superseded);
+      this.backend.complete(jobs.filter(job => !failures.has(job.memoryId) && !superseded.has(job.memoryId)));
+
+      for (const job of jobs) {
+        const error = failures.get(job.memoryId);
+        if (!error) continue;
+
+        const attempts = job.attempts + 1;
+        if (attempts >= this.config.maxAttempts) {
+          this.backend.abandon(job.memoryId, attempts, error.message);
+        } else {
+          const delay = Math.min(this.config.maxRetryDelayMs, this.config.retryDelayMs * 2 ** (attempts - 1));
+          this.backend.retry(job.memoryId, attempts, Date.now() + delay, error.message);
+        }
+      }
+    }
+  }
+
+  private scheduleRetry(): void {
+    if (this.stopped) return;
+
+    const nextDueAt = this.backend.nextDueAt();
+    if (nextDueAt === null) return;
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.kick();
+    }, Math.max(0, nextDueAt - Date.now()));
+    this.retryTimer.unref();
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Embedding providers
+ *
+ * Anything that turns text into vectors can back semantic search. A provider's
+ * `id` is recorded with the vector table it fills, so switching providers (or
+ * models) triggers a re-embed instead of mixing incompatible vectors.
+ *
+ * Built in:
+ * - TransformersEmbeddingProvider: local ONNX models via @xenova/transformers (default)
+ * - HashEmbeddingProvider: deterministic feature hashing, no model files at all
+ * - OpenAICompatibleEmbeddingProvider: a local server speaking the OpenAI
+ *   /embeddings API (llama.cpp, Ollama, LM Studio, ...)
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface EmbeddingProvider {
+  /** Stable identifier of the model behind the vectors */
+  readonly id: string;
+  /** One vector per input text, all of the same dimension */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface HashEmbeddingOptions {
+  dimensions?: number;
+}
+
+export interface OpenAICompatibleEmbeddingOptions {
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  model: string;
+  apiKey?: string;
+  timeoutMs?: number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Transformers (default)
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Pipelines are shared per model across providers and plugin instances
+const pipelines = new Map<string, Promise<any>>();
+
+function getPipeline(model: string): Promise<any> {
+  let pipe = pipelines.get(model);
+  if (!pipe) {
+    pipe = import('@xenova/transformers').then(({ pipeline }) => pipeline('feature-extraction', model));
+    pipelines.set(model, pipe);
+    // Allow a later retry if the model failed to load
+    pipe.catch(() => pipelines.delete(model));
+  }
+  return pipe;
+}
+
+export class TransformersEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(private model: string) {
+    this.id = model;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const pipe = await getPipeline(this.model);
+    const result = await pipe(texts, { pooling: 'mean', normalize: true });
+    const dimensions = result.dims[result.dims.length - 1];
+    return texts.map((_, i) => Array.from(result.data.slice(i * dimensions, (i + 1) * dimensions) as ArrayLike<number>));
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Hashing (offline, deterministic)
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Character trigrams let "prefers" and "preferences" overlap; words still dominate
+const TRIGRAM_WEIGHT = 0.5;
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Bag-of-words embeddings via the hashing trick. Similarity reflects shared
+ * words and word fragments, not meaning - good enough for tests and
+ * air-gapped setups, and identical on every machine.
+ */
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  private dimensions: number;
+
+  constructor(options: HashEmbeddingOptions = {}) {
+    this.dimensions = options.dimensions ?? 512;
+    this.id = `hash:${this.dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const add = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      // The top bit picks the sign so collisions tend to cancel out
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -weight : weight;
+    };
+
+    for (const word of text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean)) {
+      add(`w:${word}`, 1);
+      const padded = `^${word}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`t:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map(v => v / norm) : vector;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// OpenAI-compatible HTTP endpoint
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  private options: Required<Omit<OpenAICompatibleEmbeddingOptions, 'apiKey'>> & { apiKey?: string };
+
+  constructor(options: OpenAICompatibleEmbeddingOptions) {
+    this.options = { timeoutMs: 30000, ...options, baseUrl: options.baseUrl.replace(/\/+$/, '') };
+    this.id = `openai-compatible:${options.model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await fetch(`${this.options.baseUrl}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model: this.options.model, input: texts }),
+      signal: AbortSignal.timeout(this.options.timeoutMs),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Embedding endpoint returned ${response.status} ${response.statusText}: ${detail.slice(0, 200)}`);
+    }
+
+    const body = await response.json() as { data?: { embedding: number[]; index: number }[] };
+    if (!Array.isArray(body.data) || body.data.length !== texts.length) {
+      throw new Error(`Embedding endpoint returned ${body.data?.length ?? 'no'} vectors for ${texts.length} inputs`);
+    }
+
+    return [...body.data].sort((a, b) => a.index - b.index).map(d => d.embedding);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Resolution
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Recreate a provider from the id recorded with a vector table, so recall can
+ * keep querying the old table while a switch re-embeds into the new one.
+ * Returns null when the id can't be reconstructed (e.g. an HTTP endpoint).
+ */
+export function providerForId(id: string): EmbeddingProvider | null {
+  const hash = /^hash:(\d+)$/.exec(id);
+  if (hash) return new HashEmbeddingProvider({ dimensions: Number(hash[1]) });
+  if (id.startsWith('openai-compatible:')) return null;
+  return new TransformersEmbeddingProvider(id);
+}
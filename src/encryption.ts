@@ -0,0 +1,134 @@
+/**
+ * Encryption at rest
+ *
+ * When a key is configured, memories.db is written as
+ *
+ *   MAGIC (8) | salt (16) | iv (12) | auth tag (16) | AES-256-GCM ciphertext
+ *
+ * and every journal line as base64(iv | auth tag | ciphertext). The AES key is
+ * derived from the configured key with scrypt and the salt stored in the file,
+ * so the same passphrase yields a different key per store and per rotation.
+ * GCM authenticates the data: a wrong key or a tampered file fails to decrypt
+ * instead of loading as an empty database.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** A passphrase, or raw key bytes of any length */
+export type EncryptionKey = string | Uint8Array;
+
+/** A key, or a callback that fetches it (e.g. from the OS keychain) */
+export type EncryptionKeySource = EncryptionKey | (() => EncryptionKey | Promise<EncryptionKey>);
+
+export class EncryptionKeyError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'EncryptionKeyError';
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Format
+// ─────────────────────────────────────────────────────────────────────────────
+
+const MAGIC = Buffer.from('MBMENC01');
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const HEADER_BYTES = MAGIC.length + SALT_BYTES;
+
+// scrypt cost: ~100ms per derivation, done once per init() or rotation
+const SCRYPT_OPTIONS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+export function isEncrypted(data: Uint8Array): boolean {
+  return data.length >= HEADER_BYTES && MAGIC.equals(Buffer.from(data.subarray(0, MAGIC.length)));
+}
+
+export async function resolveEncryptionKey(source: EncryptionKeySource): Promise<EncryptionKey> {
+  const key = typeof source === 'function' ? await source() : source;
+  if (key.length === 0) {
+    throw new EncryptionKeyError('Encryption key is empty');
+  }
+  return key;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Cipher
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class StoreCipher {
+  private constructor(
+    private readonly key: Buffer,
+    private readonly salt: Buffer
+  ) {}
+
+  /**
+   * Cipher for a new image (fresh salt), or for an existing encrypted image
+   * (its salt)
+   */
+  static derive(material: EncryptionKey, image?: Uint8Array): StoreCipher {
+    const salt = image
+      ? Buffer.from(image.subarray(MAGIC.length, HEADER_BYTES))
+      : randomBytes(SALT_BYTES);
+    return new StoreCipher(scryptSync(material, salt, 32, SCRYPT_OPTIONS), salt);
+  }
+
+  /** Cipher for data stored next to `salt` (base64), e.g. an encrypted export */
+  static withSalt(material: EncryptionKey, salt: string): StoreCipher {
+    const bytes = Buffer.from(salt, 'base64');
+    return new StoreCipher(scryptSync(material, bytes, 32, SCRYPT_OPTIONS), bytes);
+  }
+
+  /** The salt, base64, to store next to what this cipher encrypts */
+  get encodedSalt(): string {
+    return this.salt.toString('base64');
+  }
+
+  encryptImage(data: Uint8Array): Buffer {
+    const header = Buffer.concat([MAGIC, this.salt]);
+    return Buffer.concat([header, this.seal(data, header)]);
+  }
+
+  decryptImage(data: Uint8Array): Buffer {
+    const header = Buffer.from(data.subarray(0, HEADER_BYTES));
+    try {
+      return this.unseal(Buffer.from(data.subarray(HEADER_BYTES)), header);
+    } catch (err) {
+      throw new EncryptionKeyError(
+        'memories.db could not be decrypted: the encryption key is wrong or the file is corrupted',
+        { cause: err }
+      );
+    }
+  }
+
+  encryptLine(text: string): string {
+    return this.seal(Buffer.from(text, 'utf8')).toString('base64');
+  }
+
+  /** Throws if the line was not written with this key */
+  decryptLine(line: string): string {
+    return this.unseal(Buffer.from(line, 'base64')).toString('utf8');
+  }
+
+  private seal(plaintext: Uint8Array, aad?: Buffer): Buffer {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    if (aad) cipher.setAAD(aad);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+  }
+
+  private unseal(sealed: Buffer, aad?: Buffer): Buffer {
+    if (sealed.length < IV_BYTES + TAG_BYTES) {
+      throw new Error('Encrypted data is truncated');
+    }
+    const decipher = createDecipheriv('aes-256-gcm', this.key, sealed.subarray(0, IV_BYTES));
+    decipher.setAuthTag(sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    if (aad) decipher.setAAD(aad);
+    return Buffer.concat([decipher.update(sealed.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Entities
+ *
+ * Names of people, projects, places and tools that memories are about. Each
+ * memory is linked to the entities it mentions, so "Alice" is one node shared
+ * by every memory about her rather than a substring in many rows.
+ *
+ * Links come from `metadata.entities` when the caller provides it, otherwise
+ * from a local extractor: runs of capitalized words, acronyms and email
+ * addresses. Entities are matched case-insensitively by name.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface EntityRef {
+  name: string;
+  type?: string; // e.g. "person", "project"; free-form
+}
+
+export interface Entity extends EntityRef {
+  memoryCount: number; // live memories linked to the entity
+  sharedMemories?: number; // relatedEntities(): memories mentioning both entities
+}
+
+export interface EntityConfig {
+  extract?: boolean; // link entities found in the text when metadata names none (default true)
+  /** Replaces the built-in extractor */
+  extractor?: (text: string) => EntityRef[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Vocabulary
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Capitalized words that start sentences, address people or name times rather than things
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'i', 'we', 'you', 'he', 'she', 'it', 'they', 'my', 'our', 'your', 'his', 'her', 'their',
+  'this', 'that', 'these', 'those', 'there', 'here', 'user', 'assistant', 'yes', 'no', 'ok', 'okay',
+  'if', 'when', 'then', 'also', 'and', 'but', 'or', 'so', 'as', 'at', 'in', 'on', 'for', 'to', 'of', 'with',
+  'from', 'by', 'about', 'after', 'before', 'since', 'not', 'never', 'always', 'every', 'all', 'some', 'each',
+  'what', 'why', 'how', 'where', 'who', 'which', 'is', 'are', 'was', 'can', 'could', 'should', 'will', 'would',
+  'do', "don't", 'let', "let's", 'use', 'make', 'ask', 'tell', 'call', 'send', 'email',
+  'hi', 'hello', 'hey', 'thanks', 'sure', 'please', 'remember', 'note', 'today', 'tomorrow', 'yesterday', 'tonight',
+  'dr', 'mr', 'mrs', 'ms', 'prof',
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+  'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december',
+]);
+
+// Sentence-initial verbs and adverbs ("Decided ...", "Using ...", "Usually ...")
+const SENTENCE_START_WORD = /^\p{Lu}\p{Ll}+(?:ed|ing|ly)$/u;
+
+// Sentence ends, except after a title ("Dr. Smith")
+const SENTENCE_BREAK = /(?<!\b(?:Dr|Mr|Mrs|Ms|Prof|St)\.)(?<=[.!?:;])\s+|\n+/;
+const CAPITALIZED_RUN = /\p{Lu}[\p{L}\p{N}'&.-]*(?:\s+\p{Lu}[\p{L}\p{N}'&.-]*)*/gu;
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Extraction
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Case- and whitespace-insensitive identity of an entity name
+ */
+export function entityKey(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Entities named in `metadata.entities` (strings or { name, type }), or null
+ * when the metadata doesn't list any
+ */
+export function entitiesFromMetadata(metadata?: Record<string, unknown>): EntityRef[] | null {
+  const listed = metadata?.entities;
+  if (!Array.isArray(listed)) return null;
+
+  return listed.flatMap((entry): EntityRef[] => {
+    if (typeof entry === 'string') return entry.trim() ? [{ name: entry.trim() }] : [];
+    if (entry && typeof entry === 'object' && typeof entry.name === 'string' && entry.name.trim()) {
+      return [{ name: entry.name.trim(), type: typeof entry.type === 'string' ? entry.type : undefined }];
+    }
+    return [];
+  });
+}
+
+/**
+ * The built-in extractor: proper-noun phrases, acronyms and email addresses
+ */
+export function extractEntities(text: string): EntityRef[] {
+  const found = new Map<string, EntityRef>();
+  const add = (name: string, type?: string) => {
+    const key = entityKey(name);
+    if (key && !found.has(key)) found.set(key, { name, ...(type ? { type } : {}) });
+  };
+
+  const withoutEmails = text.replace(EMAIL, email => {
+    add(email, 'email');
+    return ' ';
+  });
+
+  for (const sentence of withoutEmails.split(SENTENCE_BREAK)) {
+    for (const match of sentence.matchAll(CAPITALIZED_RUN)) {
+      const words = match[0].replace(/[.'-]+$/, '').split(/\s+/).map(word => word.replace(/\.$/, ''));
+
+      // A capitalized verb or adverb opening a sentence is just grammar ("Usually Carol ...")
+      if (sentence.slice(0, match.index).trim() === '' && SENTENCE_START_WORD.test(words[0])) words.shift();
+      // Trim stopwords at either end ("The Betty project" -> "Betty")
+      while (words.length > 0 && STOPWORDS.has(words[0].toLowerCase())) words.shift();
+      while (words.length > 0 && STOPWORDS.has(words[words.length - 1].toLowerCase())) words.pop();
+
+      if (words.length === 0 || (words.length === 1 && words[0].length < 2)) continue;
+      add(words.join(' '));
+    }
+  }
+
+  return [...found.values()];
+}
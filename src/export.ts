@@ -0,0 +1,256 @@
+/**
+ * Portable export format
+ *
+ * A JSONL file: one header line describing the export, then one memory per
+ * line. Vectors are optional; the header records which embedding model made
+ * them so an importer can tell whether they are usable or need re-embedding.
+ *
+ *   {"format":"moltbot-memory","version":1,"exportedAt":"...","embeddingModel":"hash:512","dimensions":512}
+ *   {"id":"...","text":"...","category":"fact","importance":0.7,"createdAt":"...","updatedAt":"...","vector":[...]}
+ *
+ * Exports of an encrypted store are encrypted too: the header carries the
+ * scrypt salt and every memory line is sealed like a journal line, so the
+ * file opens with the store's key (passphrase), whatever store imports it.
+ */
+
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+import { EncryptionKey, EncryptionKeyError, StoreCipher } from './encryption.js';
+import { MEMORY_CATEGORIES } from './handler-schemas.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const EXPORT_FORMAT = 'moltbot-memory';
+export const EXPORT_VERSION = 1;
+
+export interface ExportHeader {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  embeddingModel?: string; // present when records carry vectors
+  dimensions?: number;
+  encryption?: { salt: string }; // memory lines are encrypted (base64 salt of the key derivation)
+}
+
+export interface ExportRecord {
+  id: string;
+  text: string;
+  category: string;
+  importance?: number; // importer's defaultImportance when absent
+  createdAt: string;
+  updatedAt: string;
+  sessionKey?: string;
+  metadata?: Record<string, unknown>;
+  tags?: string[];
+  lastRecalledAt?: string;
+  recallCount?: number;
+  vector?: number[];
+}
+
+/**
+ * What to do when an imported id already exists:
+ * - skip: keep the stored memory untouched
+ * - overwrite: replace it with the imported one
+ * - merge: newer text/category/session wins, highest importance, earliest
+ *   createdAt, metadata keys and tags combined, recall counts added
+ */
+export type ImportConflictPolicy = 'skip' | 'overwrite' | 'merge';
+
+/** Fields of a stored memory that mergeMemory() reads and writes */
+export interface MergeableMemory {
+  id: string;
+  text: string;
+  category: string;
+  importance: number;
+  createdAt: string;
+  updatedAt: string;
+  sessionKey?: string;
+  metadata?: Record<string, unknown>;
+  tags?: string[];
+  lastRecalledAt?: string;
+  recallCount?: number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Parsing
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function parseHeader(line: string, path: string): ExportHeader {
+  let header: Partial<ExportHeader>;
+  try {
+    header = JSON.parse(line);
+  } catch (err) {
+    throw new Error(`${path} is not a moltbot-memory export: the first line is not JSON`, { cause: err });
+  }
+
+  if (header?.format !== EXPORT_FORMAT) {
+    throw new Error(`${path} is not a moltbot-memory export: missing "format": "${EXPORT_FORMAT}" header`);
+  }
+  if (typeof header.version !== 'number' || header.version > EXPORT_VERSION) {
+    throw new Error(
+      `${path} uses export format version ${header.version}, but this version of moltbot-memory-local ` +
+      `only reads up to ${EXPORT_VERSION}`
+    );
+  }
+  return header as ExportHeader;
+}
+
+/**
+ * Parse and validate one memory line. `lineNumber` is 1-based, for errors.
+ */
+export function parseRecord(line: string, lineNumber: number, path: string): ExportRecord {
+  let raw: any;
+  try {
+    raw = JSON.parse(line);
+  } catch (err) {
+    throw new Error(`Invalid JSON at line ${lineNumber} of ${path}`, { cause: err });
+  }
+
+  const fail = (reason: string) => new Error(`Invalid memory at line ${lineNumber} of ${path}: ${reason}`);
+  if (typeof raw !== 'object' || raw === null) throw fail('expected an object');
+  if (typeof raw.id !== 'string' || raw.id === '') throw fail('"id" must be a non-empty string');
+  if (typeof raw.text !== 'string' || raw.text === '') throw fail('"text" must be a non-empty string');
+  if (typeof raw.createdAt !== 'string' || isNaN(Date.parse(raw.createdAt))) throw fail('"createdAt" must be an ISO date');
+  if (raw.updatedAt !== undefined && (typeof raw.updatedAt !== 'string' || isNaN(Date.parse(raw.updatedAt)))) {
+    throw fail('"updatedAt" must be an ISO date');
+  }
+  if (raw.category !== undefined && !MEMORY_CATEGORIES.includes(raw.category)) {
+    throw fail(`"category" must be one of ${MEMORY_CATEGORIES.join(', ')}`);
+  }
+  if (raw.importance !== undefined && !(typeof raw.importance === 'number' && raw.importance >= 0 && raw.importance <= 1)) {
+    throw fail('"importance" must be a number from 0 to 1');
+  }
+  if (raw.lastRecalledAt !== undefined && (typeof raw.lastRecalledAt !== 'string' || isNaN(Date.parse(raw.lastRecalledAt)))) {
+    throw fail('"lastRecalledAt" must be an ISO date');
+  }
+  if (raw.recallCount !== undefined && !(Number.isInteger(raw.recallCount) && raw.recallCount >= 0)) {
+    throw fail('"recallCount" must be a non-negative integer');
+  }
+  if (raw.metadata !== undefined && (typeof raw.metadata !== 'object' || raw.metadata === null || Array.isArray(raw.metadata))) {
+    throw fail('"metadata" must be an object');
+  }
+  if (raw.tags !== undefined && !(Array.isArray(raw.tags) && raw.tags.every((t: unknown) => typeof t === 'string'))) {
+    throw fail('"tags" must be an array of strings');
+  }
+  if (raw.vector !== undefined && !(Array.isArray(raw.vector) && raw.vector.every((v: unknown) => typeof v === 'number'))) {
+    throw fail('"vector" must be an array of numbers');
+  }
+
+  return {
+    id: raw.id,
+    text: raw.text,
+    category: raw.category ?? 'other',
+    importance: raw.importance,
+    createdAt: raw.createdAt,
+    updatedAt: raw.updatedAt ?? raw.createdAt,
+    sessionKey: typeof raw.sessionKey === 'string' && raw.sessionKey ? raw.sessionKey : undefined,
+    metadata: raw.metadata,
+    tags: raw.tags,
+    lastRecalledAt: raw.lastRecalledAt,
+    recallCount: raw.recallCount,
+    vector: raw.vector,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Conflict Resolution
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function mergeMemory<T extends MergeableMemory>(existing: T, incoming: MergeableMemory): T {
+  const incomingIsNewer = incoming.updatedAt > existing.updatedAt;
+  const newer = incomingIsNewer ? incoming : existing;
+  const older = incomingIsNewer ? existing : incoming;
+
+  return {
+    ...existing,
+    text: newer.text,
+    category: newer.category,
+    sessionKey: newer.sessionKey ?? older.sessionKey,
+    importance: Math.max(existing.importance, incoming.importance),
+    createdAt: existing.createdAt < incoming.createdAt ? existing.createdAt : incoming.createdAt,
+    updatedAt: newer.updatedAt,
+    metadata: existing.metadata || incoming.metadata ? { ...older.metadata, ...newer.metadata } : undefined,
+    tags: existing.tags || incoming.tags ? [...new Set([...(existing.tags ?? []), ...(incoming.tags ?? [])])] : undefined,
+    lastRecalledAt: latest(existing.lastRecalledAt, incoming.lastRecalledAt),
+    recallCount: (existing.recallCount ?? 0) + (incoming.recallCount ?? 0),
+  };
+}
+
+function latest(a?: string, b?: string): string | undefined {
+  if (!a || !b) return a ?? b;
+  return a > b ? a : b;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Reading & Writing
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function toExportRecord(memory: MergeableMemory, vector?: number[]): ExportRecord {
+  return {
+    id: memory.id,
+    text: memory.text,
+    category: memory.category,
+    importance: memory.importance,
+    createdAt: memory.createdAt,
+    updatedAt: memory.updatedAt,
+    ...(memory.sessionKey ? { sessionKey: memory.sessionKey } : {}),
+    ...(memory.metadata ? { metadata: memory.metadata } : {}),
+    ...(memory.tags ? { tags: memory.tags } : {}),
+    ...(memory.lastRecalledAt ? { lastRecalledAt: memory.lastRecalledAt } : {}),
+    ...(memory.recallCount ? { recallCount: memory.recallCount } : {}),
+    ...(vector ? { vector } : {}),
+  };
+}
+
+/**
+ * Stream the records of an export file. Throws on the first invalid line,
+ * and if the file has no header. `key` opens encrypted exports.
+ */
+export async function* readExport(
+  path: string,
+  key?: EncryptionKey | null
+): AsyncGenerator<{ header: ExportHeader; record: ExportRecord }> {
+  const lines = createInterface({ input: createReadStream(path), crlfDelay: Infinity });
+  let header: ExportHeader | null = null;
+  let cipher: StoreCipher | null = null;
+  let lineNumber = 0;
+
+  for await (const line of lines) {
+    lineNumber++;
+    if (!line.trim()) continue;
+    if (!header) {
+      header = parseHeader(line, path);
+      if (header.encryption) {
+        if (!key) throw new EncryptionKeyError(`${path} is encrypted. Set encryptionKey to import it.`);
+        cipher = StoreCipher.withSalt(key, header.encryption.salt);
+      }
+      continue;
+    }
+    yield { header, record: parseRecord(cipher ? decryptRecord(cipher, line, lineNumber, path) : line, lineNumber, path) };
+  }
+
+  if (!header) {
+    throw new Error(`${path} is not a moltbot-memory export: the file is empty`);
+  }
+}
+
+function decryptRecord(cipher: StoreCipher, line: string, lineNumber: number, path: string): string {
+  try {
+    return cipher.decryptLine(line);
+  } catch (err) {
+    throw new EncryptionKeyError(`Line ${lineNumber} of ${path} could not be decrypted with the configured key`, { cause: err });
+  }
+}
+
+/**
+ * Read the whole file, throwing on the first problem. Returns the record count.
+ */
+export async function validateExport(path: string, key?: EncryptionKey | null): Promise<number> {
+  let count = 0;
+  for await (const _entry of readExport(path, key)) {
+    count++;
+  }
+  return count;
+}
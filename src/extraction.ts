@@ -0,0 +1,202 @@
+/**
+ * Memory extraction
+ *
+ * Turns raw conversation messages into candidate memories with local
+ * heuristics - no model, no network:
+ * 1. drop system/tool messages, code blocks and noise
+ * 2. split the rest into sentences and list items
+ * 3. classify each by cue phrases ("I prefer", "we decided", "my email is")
+ * 4. estimate importance from the category, the speaker and emphasis words
+ *
+ * Every candidate carries the reason it was kept or skipped, so callers can
+ * see (and tune) what the heuristics did. Deduplication against the store
+ * happens in the plugin.
+ */
+
+import type { MemoryCategory } from './index.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type MessageRole = 'user' | 'assistant' | 'system' | 'tool';
+
+export interface ConversationMessage {
+  role: MessageRole;
+  content: string;
+}
+
+export interface Classification {
+  category: MemoryCategory;
+  importance: number; // 0-1
+  reason: string; // e.g. 'preference cue "prefer"'
+}
+
+export interface ExtractionConfig {
+  minImportance?: number; // candidates below this are skipped
+  minWords?: number; // shorter sentences are skipped
+  /** Replaces the built-in classifier; return null to skip the sentence */
+  classify?: (text: string, role: MessageRole) => Classification | null;
+}
+
+export interface ExtractedCandidate extends Partial<Classification> {
+  text: string;
+  role: MessageRole;
+  skipReason?: string; // set when the candidate should not be stored
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Defaults
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const DEFAULT_EXTRACTION_CONFIG: Required<Omit<ExtractionConfig, 'classify'>> = {
+  minImportance: 0.5,
+  minWords: 3,
+};
+
+// Longer sentences are usually pasted content, not something to remember
+const MAX_CANDIDATE_LENGTH = 500;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Vocabulary
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Checked in order; the first matching category wins
+const CATEGORY_CUES: { category: MemoryCategory; importance: number; pattern: RegExp }[] = [
+  {
+    category: 'decision',
+    importance: 0.8,
+    pattern: /\b(?:decided|decision|agreed|settled on|going with|chose|we(?:'ll| will) use|let'?s (?:use|go with|stick with))\b/i,
+  },
+  {
+    category: 'preference',
+    importance: 0.7,
+    pattern: /\b(?:prefer|prefers|preferred|favou?rite|(?:i|we) (?:like|love|hate|dislike|enjoy|want)|(?:i|we)'d rather|(?:i|we) (?:always|never|usually))\b/i,
+  },
+  {
+    category: 'entity',
+    importance: 0.75,
+    pattern: /\b(?:(?:my|our) (?:name|email|phone|address|birthday|wife|husband|partner|boss|manager|team|company|dog|cat)|is called|is named|works (?:at|for)|lives in)\b|[\w.+-]+@[\w-]+\.[\w.]+|\+?\d[\d\s().-]{7,}\d/i,
+  },
+  {
+    category: 'fact',
+    importance: 0.6,
+    pattern: /\b(?:i am|i'm|i have|i work|i live|i use|we use|(?:my|our) \w+ (?:is|are|was|runs|uses)|deadline|due (?:on|by)|scheduled|meeting (?:is|on|at)|release|version \d)\b/i,
+  },
+];
+
+const EMPHASIS = /\b(?:important|remember|don'?t forget|must|always|never|critical|make sure)\b/i;
+const REMEMBER_PREFIX = /^(?:please\s+)?(?:remember|note|keep in mind)(?:\s+that)?[:,]?\s+/i;
+const FILLER_PREFIX = /^(?:so|well|also|and|but|ok(?:ay)?|btw|by the way|actually)[,:]?\s+/i;
+
+// An assistant restating or proposing something is weaker evidence than the user saying it
+const ASSISTANT_PENALTY = 0.15;
+const EMPHASIS_BONUS = 0.1;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Extraction
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Split messages into candidates and classify them. Kept candidates have a
+ * category, an importance and a reason; skipped ones a skipReason.
+ */
+export function extractCandidates(
+  messages: ConversationMessage[],
+  noisePatterns: RegExp[],
+  config: ExtractionConfig = {}
+): ExtractedCandidate[] {
+  const minImportance = config.minImportance ?? DEFAULT_EXTRACTION_CONFIG.minImportance;
+  const minWords = config.minWords ?? DEFAULT_EXTRACTION_CONFIG.minWords;
+  const classify = config.classify ?? classifyCandidate;
+  const candidates: ExtractedCandidate[] = [];
+
+  for (const message of messages) {
+    const content = message.content?.trim() ?? '';
+    if (message.role === 'system' || message.role === 'tool') {
+      if (content) candidates.push({ text: content, role: message.role, skipReason: `${message.role} message` });
+      continue;
+    }
+    if (noisePatterns.some(re => re.test(content))) {
+      candidates.push({ text: content, role: message.role, skipReason: 'noise' });
+      continue;
+    }
+
+    for (const sentence of splitSentences(content)) {
+      const text = sentence.replace(FILLER_PREFIX, '');
+      const skip = (skipReason: string) => candidates.push({ text, role: message.role, skipReason });
+
+      if (noisePatterns.some(re => re.test(text))) {
+        skip('noise');
+      } else if (text.split(/\s+/).length < minWords) {
+        skip(`fewer than ${minWords} words`);
+      } else if (text.length > MAX_CANDIDATE_LENGTH) {
+        skip(`longer than ${MAX_CANDIDATE_LENGTH} characters`);
+      } else if (text.endsWith('?')) {
+        skip('question');
+      } else {
+        const stripped = capitalize(text.replace(REMEMBER_PREFIX, ''));
+        const explicit = stripped !== capitalize(text);
+        const classification = classify(stripped, message.role);
+        if (explicit) {
+          // "Remember that ..." is kept even without a cue or with low importance
+          candidates.push({
+            text: stripped,
+            role: message.role,
+            category: classification?.category ?? 'fact',
+            importance: Math.min(1, Math.max(classification?.importance ?? 0, minImportance) + EMPHASIS_BONUS),
+            reason: classification ? `asked to remember; ${classification.reason}` : 'asked to remember',
+          });
+        } else if (!classification) {
+          skip('no memorable signal');
+        } else if (classification.importance < minImportance) {
+          skip(`${classification.reason}, importance ${classification.importance.toFixed(2)} below ${minImportance}`);
+        } else {
+          candidates.push({ ...classification, text: stripped, role: message.role });
+        }
+      }
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * The built-in classifier: the first category whose cue matches, with an
+ * importance adjusted for the speaker and emphasis. Null when nothing matches.
+ */
+export function classifyCandidate(text: string, role: MessageRole): Classification | null {
+  for (const cue of CATEGORY_CUES) {
+    const match = cue.pattern.exec(text);
+    if (!match) continue;
+
+    let importance = cue.importance;
+    if (role === 'assistant') importance -= ASSISTANT_PENALTY;
+    if (EMPHASIS.test(text)) importance += EMPHASIS_BONUS;
+
+    return {
+      category: cue.category,
+      importance: Math.round(Math.min(1, Math.max(0, importance)) * 100) / 100,
+      reason: `${cue.category} cue "${match[0].trim().toLowerCase()}"`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Sentences and list items, with code blocks, markdown markers and quotes
+ * removed
+ */
+export function splitSentences(content: string): string[] {
+  return content
+    .replace(/```[\s\S]*?```/g, '\n')
+    .split(/\n+/)
+    .map(line => line.replace(/^\s*(?:[-*•>]|\d+[.)])\s+/, '').replace(/[*_`]+/g, '').trim())
+    .flatMap(line => line.split(/(?<=[.!?])\s+(?=[A-Z0-9"'])/))
+    .map(sentence => sentence.trim().replace(/[.!]+$/, ''))
+    .filter(Boolean);
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
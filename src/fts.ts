@@ -0,0 +1,139 @@
+/**
+ * Full-text search
+ *
+ * The sql.js build ships FTS3/FTS4 but not FTS5, so BM25 is computed here from
+ * FTS4's matchinfo('pcnalx') blob and registered as a SQL function.
+ *
+ * The memories_fts table is kept in sync with memories through triggers.
+ */
+
+import type { Database as SqlJsDatabase } from 'sql.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Schema
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const FTS_TABLE = 'memories_fts';
+
+// Column index of `text` inside memories_fts (id is column 0, not indexed)
+const TEXT_COLUMN = 1;
+
+export const FTS_SCHEMA = [
+  `CREATE VIRTUAL TABLE IF NOT EXISTS ${FTS_TABLE} USING fts4(id, text, notindexed=id, tokenize=unicode61)`,
+  `CREATE TRIGGER IF NOT EXISTS memories_fts_insert AFTER INSERT ON memories BEGIN
+     INSERT INTO ${FTS_TABLE} (id, text) VALUES (new.id, new.text);
+   END`,
+  `CREATE TRIGGER IF NOT EXISTS memories_fts_update AFTER UPDATE OF text ON memories BEGIN
+     DELETE FROM ${FTS_TABLE} WHERE id = old.id;
+     INSERT INTO ${FTS_TABLE} (id, text) VALUES (new.id, new.text);
+   END`,
+  `CREATE TRIGGER IF NOT EXISTS memories_fts_delete AFTER DELETE ON memories BEGIN
+     DELETE FROM ${FTS_TABLE} WHERE id = old.id;
+   END`,
+];
+
+/**
+ * Create the FTS table and triggers. Backfills from memories when the table
+ * did not exist yet (databases created before full-text search).
+ */
+export function ensureFtsSchema(db: SqlJsDatabase): void {
+  const existing = db.exec(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = '${FTS_TABLE}'`);
+  const isNew = existing.length === 0;
+
+  for (const sql of FTS_SCHEMA) {
+    db.run(sql);
+  }
+
+  if (isNew) {
+    db.run(`INSERT INTO ${FTS_TABLE} (id, text) SELECT id, text FROM memories`);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Query Building
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Convert a free-text query into an FTS4 MATCH expression.
+ * - "quoted text" becomes a phrase query
+ * - word* becomes a prefix query
+ * - remaining words are OR-ed together; common words need no list, BM25's
+ *   idf gives them next to no weight
+ *
+ * Returns null when nothing searchable is left.
+ */
+export function buildFtsQuery(query: string): string | null {
+  const terms: string[] = [];
+
+  const rest = query.replace(/"([^"]*)"/g, (_match, phrase: string) => {
+    const tokens = tokenize(phrase);
+    if (tokens.length > 0) terms.push(`"${tokens.join(' ')}"`);
+    return ' ';
+  });
+
+  for (const raw of rest.split(/\s+/)) {
+    const isPrefix = raw.endsWith('*');
+    const tokens = tokenize(raw);
+    tokens.forEach((token, i) => {
+      if (isPrefix && i === tokens.length - 1) {
+        terms.push(`${token}*`);
+      } else if (token.length > 1) {
+        terms.push(token);
+      }
+    });
+  }
+
+  const unique = [...new Set(terms)];
+  return unique.length > 0 ? unique.join(' OR ') : null;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// BM25 Ranking
+// ─────────────────────────────────────────────────────────────────────────────
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Okapi BM25 over a matchinfo('pcnalx') blob, restricted to the text column.
+ */
+export function bm25(matchinfo: Uint8Array, column = TEXT_COLUMN): number {
+  const info = new Uint32Array(matchinfo.buffer, matchinfo.byteOffset, matchinfo.byteLength / 4);
+  const phraseCount = info[0];
+  const columnCount = info[1];
+  const rowCount = info[2];
+  const avgLength = info[3 + column] || 1;
+  const docLength = info[3 + columnCount + column];
+  const hitsOffset = 3 + 2 * columnCount;
+
+  let score = 0;
+  for (let i = 0; i < phraseCount; i++) {
+    const base = hitsOffset + 3 * (i * columnCount + column);
+    const termFrequency = info[base];
+    const docsWithHits = info[base + 2];
+    if (termFrequency === 0) continue;
+
+    const idf = Math.log((rowCount - docsWithHits + 0.5) / (docsWithHits + 0.5) + 1);
+    const norm = termFrequency + BM25_K1 * (1 - BM25_B + BM25_B * docLength / avgLength);
+    score += idf * (termFrequency * (BM25_K1 + 1)) / norm;
+  }
+  return score;
+}
+
+/**
+ * Map an unbounded BM25 score into 0-1
+ */
+export function normalizeBm25(score: number): number {
+  return score > 0 ? score / (score + 1) : 0;
+}
+
+/**
+ * Register bm25() so it can be used in ORDER BY
+ */
+export function registerFtsFunctions(db: SqlJsDatabase): void {
+  db.create_function('bm25', (matchinfo: Uint8Array | null) => (matchinfo ? bm25(matchinfo) : 0));
+}
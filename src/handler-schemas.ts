@@ -0,0 +1,220 @@
+/**
+ * Handler schemas
+ *
+ * One JSON schema per Moltbot handler. The host registers them as tool
+ * definitions, and the plugin validates incoming params against the same
+ * objects (see validation.ts), so the description a model sees and the
+ * checks it is held to cannot drift apart.
+ */
+
+import type { JsonSchema } from './validation.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface HandlerSchema {
+  description: string;
+  parameters: JsonSchema;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Shared Fragments
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Must list every MemoryCategory
+export const MEMORY_CATEGORIES = ['preference', 'fact', 'decision', 'entity', 'conversation', 'other'] as const;
+
+const text: JsonSchema = { type: 'string', minLength: 1 };
+const memoryId: JsonSchema = { type: 'string', minLength: 1, description: 'Memory id' };
+const category: JsonSchema = { type: 'string', enum: MEMORY_CATEGORIES };
+const importance: JsonSchema = { type: 'number', minimum: 0, maximum: 1, description: '0-1, higher is kept longer' };
+const sessionKey: JsonSchema = { type: 'string', minLength: 1, description: 'Conversation the memory belongs to' };
+const metadata: JsonSchema = { type: 'object', description: 'Free-form JSON object' };
+const tags: JsonSchema = { type: 'array', items: { type: 'string', minLength: 1 } };
+const actor: JsonSchema = { type: 'string', minLength: 1, description: 'Recorded in the audit log' };
+const date: JsonSchema = {
+  type: 'string',
+  anyOf: [{ format: 'date' }, { format: 'date-time' }],
+  description: 'ISO date or timestamp',
+};
+const exportFile: JsonSchema = { type: 'string', minLength: 1, description: 'File name, relative to the exports/ folder' };
+const limit = (maximum: number): JsonSchema => ({ type: 'integer', minimum: 1, maximum });
+
+const metadataValue: JsonSchema = { type: ['string', 'number', 'boolean', 'null'] };
+const where: JsonSchema = {
+  type: 'object',
+  description: 'Conditions on metadata keys (dot-separated for nested keys): a value for equality, or operators',
+  additionalProperties: {
+    anyOf: [
+      metadataValue,
+      {
+        type: 'object',
+        properties: {
+          eq: metadataValue,
+          in: { type: 'array', items: metadataValue },
+          exists: { type: 'boolean' },
+          gt: { type: 'number' },
+          gte: { type: 'number' },
+          lt: { type: 'number' },
+          lte: { type: 'number' },
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+};
+
+// Shared by memory_recall and memory_recall_context
+const recall: Record<string, JsonSchema> = {
+  query: { type: 'string' },
+  limit: limit(1000),
+  category,
+  dateFrom: date,
+  dateTo: date,
+  parseDates: { type: 'boolean' },
+  sessionKey,
+  boostSessionKey: sessionKey,
+  entity: text,
+  expandEntities: { type: 'boolean' },
+  tokenBudget: { type: 'integer', minimum: 1, description: 'Fit the memories in this many prompt tokens' },
+  diversity: { type: 'number', minimum: 0, maximum: 1, description: 'With tokenBudget: 0 ranks by relevance only, higher avoids near-duplicates' },
+  where,
+  tags,
+  filterNoise: { type: 'boolean' },
+  mode: { type: 'string', enum: ['auto', 'semantic', 'structured', 'hybrid'] },
+  ranker: { type: 'string', enum: ['rrf', 'weighted'] },
+  weights: {
+    type: 'object',
+    properties: {
+      similarity: { type: 'number', minimum: 0 },
+      text: { type: 'number', minimum: 0 },
+      importance: { type: 'number', minimum: 0 },
+      recency: { type: 'number', minimum: 0 },
+    },
+    additionalProperties: false,
+  },
+};
+
+// Multi-tenant plugins route on this; single-store plugins ignore it
+const namespace: JsonSchema = {
+  type: 'string',
+  pattern: '^[A-Za-z0-9][A-Za-z0-9._-]{0,127}$',
+  description: 'User or agent whose store to use (multi-tenant mode)',
+};
+
+function params(properties: Record<string, JsonSchema>, required: string[] = [], extra: JsonSchema = {}): JsonSchema {
+  return {
+    type: 'object',
+    properties: { ...properties, namespace },
+    required,
+    additionalProperties: false,
+    ...extra,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Handlers
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const HANDLER_SCHEMAS = {
+  memory_store: {
+    description: 'Store a new memory',
+    parameters: params({ text, category, importance, sessionKey, metadata, tags, dedup: { type: 'boolean' } }, ['text']),
+  },
+  memory_update: {
+    description: 'Edit an existing memory; returns null if the id does not exist',
+    parameters: params(
+      {
+        memoryId,
+        text,
+        category,
+        importance,
+        sessionKey: { ...sessionKey, type: ['string', 'null'], description: 'Conversation the memory belongs to; null clears it' },
+        metadata: { ...metadata, type: ['object', 'null'], description: 'Replaces the metadata; null clears it' },
+        tags,
+      },
+      ['memoryId']
+    ),
+  },
+  memory_ingest: {
+    description: 'Extract and store memories from conversation messages',
+    parameters: params(
+      {
+        sessionKey,
+        messages: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { role: { type: 'string', enum: ['user', 'assistant', 'system', 'tool'] }, content: { type: 'string' } },
+            required: ['role', 'content'],
+          },
+        },
+        dryRun: { type: 'boolean' },
+      },
+      ['sessionKey', 'messages']
+    ),
+  },
+  memory_recall: {
+    description: 'Find memories by meaning, keywords, dates, metadata, tags, entity or session',
+    parameters: params(recall, ['query']),
+  },
+  memory_recall_context: {
+    description: 'Recall memories and format them as a block to add to the prompt, within tokenBudget',
+    parameters: params(recall, ['query']),
+  },
+  memory_get: {
+    description: 'Fetch one memory by id; returns null if it does not exist',
+    parameters: params({ memoryId }, ['memoryId']),
+  },
+  memory_list: {
+    description: 'Page through memories, newest first',
+    parameters: params({
+      cursor: { type: 'string', minLength: 1, description: 'nextCursor from the previous page' },
+      limit: limit(500),
+      category,
+      sessionKey,
+      entity: text,
+      where,
+      tags,
+    }),
+  },
+  memory_stats: {
+    description: 'Count memories, embeddings, trash and categories',
+    parameters: params({}),
+  },
+  memory_sessions: {
+    description: 'List sessions with memory counts and time spans, most recent first',
+    parameters: params({ limit: limit(1000) }),
+  },
+  memory_summarize_session: {
+    description: "Condense a session's conversation memories into one summary memory",
+    parameters: params({ sessionKey, archive: { type: 'boolean' }, actor }, ['sessionKey']),
+  },
+  memory_entities: {
+    description: 'List entities, or the entities related to one',
+    parameters: params({ entity: text, query: { type: 'string' }, limit: limit(1000) }),
+  },
+  memory_forget: {
+    description: 'Delete memories by id or query (to the trash unless permanent)',
+    parameters: params(
+      { memoryId, query: text, dryRun: { type: 'boolean' }, permanent: { type: 'boolean' }, reason: text, actor },
+      [],
+      { anyOf: [{ required: ['memoryId'] }, { required: ['query'] }] }
+    ),
+  },
+  memory_restore: {
+    description: 'Restore a memory from the trash',
+    parameters: params({ memoryId, actor }, ['memoryId']),
+  },
+  memory_export: {
+    description: "Write every memory to a JSONL file in the store's exports/ folder",
+    parameters: params({ path: exportFile, includeVectors: { type: 'boolean' } }, ['path']),
+  },
+  memory_import: {
+    description: "Read memories from a JSONL export in the store's exports/ folder",
+    parameters: params({ path: exportFile, onConflict: { type: 'string', enum: ['skip', 'overwrite', 'merge'] } }, ['path']),
+  },
+} satisfies Record<string, HandlerSchema>;
+
+export type HandlerName = keyof typeof HANDLER_SCHEMAS;
@@ -9,11 +9,69 @@
  * Zero cloud calls. Everything runs locally.
  */
 
-import initSqlJs, { Database as SqlJsDatabase } from 'sql.js';
+import initSqlJs, { Database as SqlJsDatabase, SqlJsStatic } from 'sql.js';
 import { randomUUID } from 'crypto';
 import { homedir } from 'os';
-import { join, dirname } from 'path';
-import { mkdirSync, existsSync, readFileSync, writeFileSync } from 'fs';
+import { join, dirname, isAbsolute, resolve, sep } from 'path';
+import { mkdirSync, existsSync, readFileSync, readdirSync, copyFileSync, renameSync, statSync, unlinkSync } from 'fs';
+import { open } from 'fs/promises';
+import { buildFtsQuery, normalizeBm25, registerFtsFunctions, FTS_TABLE } from './fts.js';
+import { pendingMigrations, runMigrations, SCHEMA_VERSION } from './migrations.js';
+import { EmbeddingProvider, TransformersEmbeddingProvider, providerForId } from './embeddings.js';
+import { EmbeddingQueue, EmbeddingJob, EmbeddingBatchResult, EmbeddingQueueConfig, DEFAULT_EMBEDDING_QUEUE_CONFIG } from './embedding-queue.js';
+import { EncryptionKey, EncryptionKeyError, EncryptionKeySource, StoreCipher, isEncrypted, resolveEncryptionKey } from './encryption.js';
+import { describeOwner, readLockOwner, StoreLock, StoreLockedError } from './lock.js';
+import { JournalFile, readJournal, writeFileAtomic, JournalEntry, JournalParam } from './persistence.js';
+import { EXPORT_FORMAT, EXPORT_VERSION, ExportHeader, ExportRecord, ImportConflictPolicy, mergeMemory, readExport, toExportRecord, validateExport } from './export.js';
+import { parseTemporalExpression } from './temporal.js';
+import { extractCandidates, ConversationMessage, ExtractionConfig, MessageRole } from './extraction.js';
+import { extractiveSummary, SessionSummarizer } from './summarize.js';
+import { compileMetadataFilter, normalizeTags, MetadataWhere } from './metadata-filter.js';
+import { formatContext, selectWithinBudget, ContextConfig, DEFAULT_CONTEXT_CONFIG } from './context.js';
+import { assertValid, ValidationError } from './validation.js';
+import { HANDLER_SCHEMAS, HandlerName, HandlerSchema } from './handler-schemas.js';
+import { entitiesFromMetadata, entityKey, extractEntities, Entity, EntityConfig, EntityRef } from './entities.js';
+import { adjustScore, effectiveScore, registerRelevanceFunction, RelevanceConfig } from './relevance.js';
+import { fuseResults, HybridConfig, HybridRanker, HybridWeights, DEFAULT_HYBRID_CONFIG, ScoreBreakdown } from './ranking.js';
+import { addTiming, MemoryEventEmitter, MemoryMetrics, Logger, MemoryEventName, MemoryEventListener, MemoryEvents, MetricSample, RecallDiagnostics, RecallResults, RecallTrace, SearchPath } from './observability.js';
+
+export { SchemaVersionError, SCHEMA_VERSION } from './migrations.js';
+export { EncryptionKeyError } from './encryption.js';
+export { StoreLockedError } from './lock.js';
+export type { LockOwner } from './lock.js';
+export type { EncryptionKey, EncryptionKeySource } from './encryption.js';
+export { TransformersEmbeddingProvider, HashEmbeddingProvider, OpenAICompatibleEmbeddingProvider } from './embeddings.js';
+export type { EmbeddingProvider, HashEmbeddingOptions, OpenAICompatibleEmbeddingOptions } from './embeddings.js';
+export type { EmbeddingQueueConfig } from './embedding-queue.js';
+export type { HybridConfig, HybridRanker, HybridWeights, ScoreBreakdown } from './ranking.js';
+export type { ExportHeader, ExportRecord, ImportConflictPolicy } from './export.js';
+export type { RelevanceConfig, RelevanceInput, RelevanceWeights } from './relevance.js';
+export { parseTemporalExpression } from './temporal.js';
+export type { TemporalOptions, TemporalRange } from './temporal.js';
+export { classifyCandidate } from './extraction.js';
+export type { Classification, ConversationMessage, ExtractionConfig, MessageRole } from './extraction.js';
+export { extractEntities } from './entities.js';
+export { extractiveSummary } from './summarize.js';
+export type { ExtractiveSummaryOptions, SessionSummarizer } from './summarize.js';
+export type { MetadataCondition, MetadataOperators, MetadataValue, MetadataWhere } from './metadata-filter.js';
+export { approximateTokens, formatMemoryLine } from './context.js';
+export type { ContextConfig, MemoryFormatter, TokenCounter } from './context.js';
+export { ValidationError } from './validation.js';
+export type { JsonSchema, ValidationIssue } from './validation.js';
+export { HANDLER_SCHEMAS } from './handler-schemas.js';
+export type { HandlerName, HandlerSchema } from './handler-schemas.js';
+export type { Entity, EntityConfig, EntityRef } from './entities.js';
+export type {
+  FallbackOperation,
+  Logger,
+  MemoryEventListener,
+  MemoryEventName,
+  MemoryEvents,
+  RecallDiagnostics,
+  RecallResults,
+  RecallTimings,
+  SearchPath,
+} from './observability.js';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
@@ -28,7 +86,13 @@ export interface Memory {
   updatedAt: string;
   sessionKey?: string;
   metadata?: Record<string, unknown>;
+  tags?: string[]; // lowercase
+  lastRecalledAt?: string; // last time recall() returned this memory
+  recallCount?: number; // times recall() has returned this memory
+  effectiveScore?: number; // importance blended with recency and reinforcement (see relevance.ts)
   score?: number; // relevance score from search
+  relatedVia?: string[]; // expandEntities: the entities linking this memory to a direct result
+  scoreBreakdown?: ScoreBreakdown; // per-component scores (hybrid mode)
 }
 
 export type MemoryCategory = 
@@ -45,6 +109,18 @@ export interface MemoryStoreParams {
   importance?: number;
   sessionKey?: string;
   metadata?: Record<string, unknown>;
+  tags?: string[];
+  dedup?: boolean; // merge into a near-identical memory instead of inserting (overrides config)
+}
+
+export interface MemoryUpdateParams {
+  memoryId: string;
+  text?: string;
+  category?: MemoryCategory;
+  importance?: number;
+  sessionKey?: string | null; // null clears it; undefined leaves it unchanged
+  metadata?: Record<string, unknown> | null; // replaces the metadata; null clears it
+  tags?: string[]; // replaces the memory's tags
 }
 
 export interface MemoryRecallParams {
@@ -53,13 +129,196 @@ export interface MemoryRecallParams {
   category?: MemoryCategory;
   dateFrom?: string;
   dateTo?: string;
+  parseDates?: boolean; // resolve "yesterday", "last week", ... in the query (default true)
+  sessionKey?: string; // only memories from this session
+  boostSessionKey?: string; // rank memories from this session higher without excluding others
+  entity?: string; // only memories linked to this entity
+  where?: MetadataWhere; // conditions on metadata keys (see metadata-filter.ts)
+  tags?: string[]; // only memories with all of these tags
+  expandEntities?: boolean; // also return memories sharing an entity with the results (one hop)
+  tokenBudget?: number; // pick memories whose context lines fit in this many tokens; limit then only caps the count
+  diversity?: number; // tokenBudget only: 0-1, overrides context.diversity
   filterNoise?: boolean;
-  mode?: 'auto' | 'semantic' | 'structured'; // query mode
+  mode?: 'auto' | 'semantic' | 'structured' | 'hybrid'; // query mode
+  ranker?: HybridRanker; // hybrid mode only, overrides config
+  weights?: Partial<HybridWeights>; // hybrid mode only, 'weighted' ranker
+}
+
+export interface RecallContextResult {
+  context: string; // header and one line per memory; '' when nothing matched
+  memories: Memory[];
+  tokens: number; // of context, by the configured token counter
+  diagnostics: RecallDiagnostics;
+}
+
+export interface MemoryIngestParams {
+  sessionKey: string; // conversation the messages belong to
+  messages: ConversationMessage[];
+  dryRun?: boolean; // report what would be stored without storing it
+}
+
+export interface IngestDecision {
+  text: string;
+  role: MessageRole;
+  action: 'stored' | 'merged' | 'skipped';
+  reason: string; // the cue that classified it, or why it was skipped
+  category?: MemoryCategory;
+  importance?: number;
+  memory?: Memory; // the new memory, or the existing one a duplicate was merged into
+}
+
+export interface MemoryIngestResult {
+  stored: number;
+  merged: number;
+  skipped: number;
+  decisions: IngestDecision[]; // one per candidate, in message order
+}
+
+export interface SessionInfo {
+  sessionKey: string;
+  count: number; // live memories
+  firstAt: string; // createdAt of the oldest memory
+  lastAt: string; // createdAt of the newest memory
+  byCategory: Record<string, number>;
+  summarized: boolean; // has a summary from summarizeSession()
+}
+
+export interface SummarizeSessionParams {
+  sessionKey: string;
+  archive?: boolean; // move the summarized memories to the trash
+  actor?: string; // recorded in the audit log when archiving (default: "user")
+}
+
+export interface SessionSummaryResult {
+  summary: Memory | null; // null when the session has no conversation memories
+  summarized: number;
+  archived: number;
+}
+
+export interface MemoryEntitiesParams {
+  entity?: string; // list the entities that share memories with this one
+  query?: string; // otherwise list all entities, optionally those whose name contains this
+  limit?: number;
+}
+
+export interface MemoryGetParams {
+  memoryId: string;
+}
+
+export interface MemoryListParams {
+  cursor?: string; // nextCursor of the previous page
+  limit?: number; // page size (default 50)
+  category?: MemoryCategory;
+  sessionKey?: string;
+  entity?: string;
+  where?: MetadataWhere;
+  tags?: string[];
+}
+
+export interface MemoryListResult {
+  memories: Memory[]; // newest first
+  nextCursor?: string; // absent on the last page
+}
+
+export interface MemoryStats {
+  total: number;
+  withEmbeddings: number;
+  inTrash: number;
+  byCategory: Record<string, number>;
+  embeddingModel: string | null; // model of the stored vectors; null before the first is written
 }
 
 export interface MemoryForgetParams {
   memoryId?: string;
   query?: string;
+  dryRun?: boolean; // return what would be deleted without deleting it
+  permanent?: boolean; // erase now instead of moving to the trash
+  reason?: string; // recorded in the audit log (default: "forget")
+  actor?: string; // recorded in the audit log (default: "user")
+}
+
+export interface MemoryForgetResult {
+  deleted: number; // with dryRun: how many would be deleted
+  memories?: Memory[]; // dryRun only: the memories that would be deleted
+}
+
+export interface MemoryRestoreParams {
+  memoryId: string;
+  actor?: string; // recorded in the audit log (default: "user")
+}
+
+export interface TrashedMemory extends Memory {
+  deletedAt: string;
+  purgeAfter: string; // erased for good after this, unless restored
+}
+
+export type AuditAction = 'trash' | 'restore' | 'purge';
+
+export interface AuditEntry {
+  seq: number;
+  memoryId: string;
+  action: AuditAction;
+  reason: string;
+  actor: string;
+  category?: string;
+  at: string;
+}
+
+export interface RetentionResult {
+  expired: number; // moved to the trash by a category rule
+  purged: number; // erased after their grace period in the trash
+}
+
+export interface VacuumResult {
+  bytesBefore: number; // memories.db on disk
+  bytesAfter: number;
+  vectorBytesRemoved: number; // superseded LanceDB versions deleted
+}
+
+export interface DimensionMismatch {
+  table: string;
+  expected: number; // recorded for the table's embedding model
+  actual: number; // in the table's schema
+}
+
+export interface VerifyReport {
+  consistent: boolean;
+  orphanVectors: string[]; // vectors whose memory was erased or is in the trash
+  missingVectors: string[]; // memories marked as embedded that have no vector
+  dimensionMismatches: DimensionMismatch[];
+}
+
+/** What init() does about SQLite and LanceDB disagreeing */
+export type VerifyOnInit = 'off' | 'warn' | 'repair';
+
+// 'auto' writes unless another process does, then opens read-only
+export type StoreAccess = 'auto' | 'write' | 'read';
+
+export type DoctorStatus = 'ok' | 'warn' | 'fail';
+
+export interface DoctorCheck {
+  name: string;
+  status: DoctorStatus;
+  detail: string;
+}
+
+export interface MemoryExportParams {
+  path: string; // JSONL file to write
+  includeVectors?: boolean; // include vectors from the active embedding model
+  plaintext?: boolean; // write an encrypted store's export unencrypted (not offered to handlers)
+}
+
+export interface MemoryImportParams {
+  path: string; // JSONL file written by exportMemories()
+  onConflict?: ImportConflictPolicy; // when an id already exists (default: skip)
+}
+
+export interface MemoryImportResult {
+  imported: number; // new memories
+  merged: number;
+  overwritten: number;
+  skipped: number;
+  reembedded: number; // queued for embedding because no usable vector came with them
 }
 
 export interface PluginConfig {
@@ -67,15 +326,42 @@ export interface PluginConfig {
   maxMemories?: number;
   defaultImportance?: number;
   noisePatterns?: string[];
-  embeddingModel?: string;
+  embeddingModel?: string; // used by the default transformers provider
+  embeddingProvider?: EmbeddingProvider; // replaces the default transformers provider
   enableEmbeddings?: boolean; // can disable if resources are tight
+  hybrid?: HybridConfig; // ranking defaults for hybrid recall
+  dedup?: boolean; // detect near-duplicates on store
+  dedupThreshold?: number; // vector similarity (0-1) above which memories are merged
+  flushIntervalMs?: number; // debounce for writing memories.db; 0 writes on every change
+  embeddingQueue?: EmbeddingQueueConfig; // batching and retry for background embedding
+  relevance?: RelevanceConfig; // decay and reinforcement behind the effective score
+  trashRetentionDays?: number; // grace period in the trash before memories are erased
+  retention?: Partial<Record<MemoryCategory, number>>; // days after which memories of a category expire
+  retentionIntervalMs?: number; // how often retention rules run; 0 only runs them at init()
+  encryptionKey?: EncryptionKeySource; // encrypts memories.db and the journal at rest
+  extraction?: ExtractionConfig; // heuristics used by ingest()
+  entities?: EntityConfig; // how memories are linked to entities
+  sessionBoost?: number; // boostSessionKey multiplies scores by 1 + this
+  summarizer?: SessionSummarizer; // replaces the extractive session summarizer
+  context?: ContextConfig; // token counting and formatting for tokenBudget and recallContext()
+  verifyOnInit?: VerifyOnInit; // check vectors against SQLite at init()
+  logger?: Logger; // where warnings go; defaults to console
+  access?: StoreAccess; // whether this instance may write memories.db (see lock.ts)
+  staleLockMs?: number; // a writer's lock untouched this long is taken over
+  reloadIntervalMs?: number; // how often a read-only instance looks for the writer's changes; 0 only on reload()
+  clock?: () => Date; // "now" for resolving dates in queries
+  timeZone?: string; // IANA zone for resolving dates in queries; defaults to the system zone
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Default Configuration
 // ─────────────────────────────────────────────────────────────────────────────
 
-const DEFAULT_CONFIG: Required<PluginConfig> = {
+// Options with no default value
+type OptionalConfigKeys = 'embeddingProvider' | 'encryptionKey' | 'clock' | 'timeZone' | 'summarizer';
+type ResolvedConfig = Required<Omit<PluginConfig, OptionalConfigKeys>> & Pick<PluginConfig, OptionalConfigKeys>;
+
+const DEFAULT_CONFIG: ResolvedConfig = {
   dataDir: join(homedir(), '.moltbot', 'memory'),
   maxMemories: 10000,
   defaultImportance: 0.7,
@@ -85,8 +371,106 @@ const DEFAULT_CONFIG: Required<PluginConfig> = {
   ],
   embeddingModel: 'Xenova/all-MiniLM-L6-v2',
   enableEmbeddings: true,
+  hybrid: DEFAULT_HYBRID_CONFIG,
+  dedup: false,
+  dedupThreshold: 0.95,
+  flushIntervalMs: 1000,
+  embeddingQueue: {},
+  relevance: {},
+  trashRetentionDays: 30,
+  retention: {},
+  retentionIntervalMs: 60 * 60 * 1000,
+  extraction: {},
+  entities: {},
+  sessionBoost: 0.3,
+  verifyOnInit: 'off',
+  context: {},
+  logger: console,
+  access: 'auto',
+  staleLockMs: 30 * 1000,
+  reloadIntervalMs: 1000,
 };
 
+// A busy store is still flushed at least this many debounce intervals after the first change
+const FLUSH_MAX_DELAY_FACTOR = 5;
+
+// Memories read or written per step of an export/import
+const TRANSFER_BATCH_SIZE = 100;
+
+// Candidates a tokenBudget recall picks from when no limit is given
+const TOKEN_BUDGET_CANDIDATES = 50;
+
+// Ids per IN (...) list, so a statement's size doesn't grow with the number of
+// ids passed in (sql.js's SQLite takes up to 32766 bound parameters)
+const ID_BATCH_SIZE = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// memories.db.v<old-version>-<timestamp>.bak, copied before migrating
+const MIGRATION_BACKUP_PATTERN = /^memories\.db\.v\d+-.+\.bak$/;
+
+// Audit log actor for deletions the plugin makes on its own
+const SYSTEM_ACTOR = 'system';
+
+// Importance added to a memory each time a duplicate is merged into it
+const DEDUP_IMPORTANCE_BOOST = 0.05;
+
+// A session summary outranks the most important memory it condenses by this much
+const SUMMARY_IMPORTANCE_BOOST = 0.1;
+
+// Tags of each memory row, as a JSON array
+const TAGS_COLUMN = '(SELECT json_group_array(tag) FROM memory_tags WHERE memory_id = m.id) AS tags';
+
+function parseTags(json: string | null): string[] | undefined {
+  const tags: string[] = json ? JSON.parse(json) : [];
+  return tags.length > 0 ? tags.sort() : undefined;
+}
+
+// Opaque to callers: base64url of [createdAt, id] of the last memory on a page
+function encodeCursor(memory: Memory): string {
+  return Buffer.from(JSON.stringify([memory.createdAt, memory.id])).toString('base64url');
+}
+
+function decodeCursor(cursor: string): [string, string] {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Array.isArray(decoded) && decoded.length === 2 && decoded.every(part => typeof part === 'string')) {
+      return decoded as [string, string];
+    }
+  } catch {
+    // Reported below
+  }
+  throw new ValidationError('memory_list', [{ path: 'cursor', message: 'is not a cursor returned by memory_list' }]);
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/** `items` split into ID_BATCH_SIZE chunks, one per IN (...) list */
+function idBatches<T>(items: T[]): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += ID_BATCH_SIZE) {
+    batches.push(items.slice(i, i + ID_BATCH_SIZE));
+  }
+  return batches;
+}
+
+/**
+ * A dateFrom/dateTo as a UTC timestamp, comparable with created_at. A
+ * date-only dateTo means the end of that day.
+ */
+function normalizeDateBound(value: string | undefined, bound: 'from' | 'to'): string | undefined {
+  if (!value) return value;
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const time = new Date(dateOnly && bound === 'to' ? `${value}T23:59:59.999Z` : value).getTime();
+  return Number.isNaN(time) ? value : new Date(time).toISOString();
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean).join(' ');
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Query Type Detection
 // ─────────────────────────────────────────────────────────────────────────────
@@ -108,6 +492,9 @@ const EXACT_PATTERNS = [
 ];
 
 function detectQueryType(query: string): 'semantic' | 'structured' {
+  // Nothing to embed: list by relevance (e.g. everything about an entity)
+  if (!query.trim()) return 'structured';
+
   // Check for temporal patterns → structured
   for (const pattern of TEMPORAL_PATTERNS) {
     if (pattern.test(query)) return 'structured';
@@ -126,28 +513,7 @@ function detectQueryType(query: string): 'semantic' | 'structured' {
 // Embeddings Manager (Lazy-loaded)
 // ─────────────────────────────────────────────────────────────────────────────
 
-let embeddingPipeline: any = null;
-let lanceDb: any = null;
-let lanceTable: any = null;
-let tableCreationPromise: Promise<void> | null = null;
-
-async function getEmbeddingPipeline(modelName: string) {
-  if (!embeddingPipeline) {
-    const { pipeline } = await import('@xenova/transformers');
-    embeddingPipeline = await pipeline('feature-extraction', modelName);
-  }
-  return embeddingPipeline;
-}
-
-async function embed(text: string, modelName: string): Promise<number[]> {
-  const pipe = await getEmbeddingPipeline(modelName);
-  const result = await pipe(text, { pooling: 'mean', normalize: true });
-  return Array.from(result.data);
-}
-
-async function initLanceDB(dataDir: string): Promise<void> {
-  if (lanceDb) return;
-  
+async function connectLanceDB(dataDir: string): Promise<any> {
   const lanceModule = await import('@lancedb/lancedb');
   const dbPath = join(dataDir, 'vectors');
   
@@ -155,50 +521,98 @@ async function initLanceDB(dataDir: string): Promise<void> {
     mkdirSync(dbPath, { recursive: true });
   }
   
-  lanceDb = await lanceModule.connect(dbPath);
-  
-  // Try to open existing table or create new
-  const tables = await lanceDb.tableNames();
-  if (tables.includes('memories')) {
-    lanceTable = await lanceDb.openTable('memories');
-  }
+  return lanceModule.connect(dbPath);
 }
 
-async function ensureLanceTable(dimensions: number): Promise<void> {
-  // Return if table already exists
-  if (lanceTable) return;
-  
-  // If another call is already creating the table, wait for it
-  if (tableCreationPromise) {
-    await tableCreationPromise;
-    return;
+// Table written before the embedding model was recorded
+const LEGACY_VECTOR_TABLE = 'memories';
+
+interface VectorTableRecord {
+  name: string;
+  model: string;
+  dimensions: number | null; // known once the first vector is written
+  status: 'active' | 'building';
+  cursor: string | null; // build progress: last "created_at|id" embedded
+  startedAt: string;
+}
+
+function vectorTableName(model: string): string {
+  return `memories_${model.toLowerCase().replace(/[^a-z0-9]+/g, '_')}`;
+}
+
+// Columns stored next to each vector so filters can run as a LanceDB prefilter
+const VECTOR_FILTER_COLUMNS = ['category', 'created_at', 'session_key'];
+
+// No text column: the only copy of the text lives in (possibly encrypted) SQLite
+interface VectorRow {
+  id: string;
+  vector: number[];
+  category: string;
+  created_at: string;
+  session_key: string; // '' when absent; LanceDB can't infer a type from all-null columns
+}
+
+function toVectorRow(memory: Memory, vector: number[]): VectorRow {
+  return {
+    id: memory.id,
+    vector,
+    category: memory.category,
+    created_at: memory.createdAt,
+    session_key: memory.sessionKey || '',
+  };
+}
+
+/** Whether a vector made from `before` is still right for `after` */
+function sameVersion(before: Memory, after: Memory): boolean {
+  return before.updatedAt === after.updatedAt && before.text === after.text && before.category === after.category
+    && before.sessionKey === after.sessionKey;
+}
+
+/**
+ * Every row of a vector table; a query without a limit returns only 10
+ */
+async function readAllRows(table: any, columns: string[]): Promise<any[]> {
+  const count: number = await table.countRows();
+  return count === 0 ? [] : table.query().select(columns).limit(count).toArray();
+}
+
+function lanceString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Rebuild a vector table created before filter columns were stored, or one
+ * that still holds a plaintext copy of the text, pulling the filter columns
+ * from SQLite. Vectors with no SQLite row are dropped.
+ * Returns the table to use, or null if nothing was left to carry over.
+ */
+async function migrateLanceTable(
+  lanceDb: any,
+  table: any,
+  name: string,
+  lookup: (ids: string[]) => Map<string, Memory>
+): Promise<any> {
+  const fields: string[] = (await table.schema()).fields.map((f: any) => f.name);
+  if (VECTOR_FILTER_COLUMNS.every(c => fields.includes(c)) && !fields.includes('text')) return table;
+
+  const existing = await readAllRows(table, ['id', 'vector']);
+  const memories = lookup(existing.map((r: any) => r.id));
+  const rows = existing
+    .filter((r: any) => memories.has(r.id))
+    .map((r: any) => toVectorRow(memories.get(r.id)!, Array.from(r.vector as ArrayLike<number>)));
+
+  if (rows.length === 0) {
+    // Nothing to carry over - recreated lazily on the next write
+    await lanceDb.dropTable(name);
+    return null;
   }
-  
-  // Create table with lock to prevent race condition
-  tableCreationPromise = (async () => {
-    try {
-      // Double-check after acquiring "lock"
-      const tables = await lanceDb.tableNames();
-      if (tables.includes('memories')) {
-        lanceTable = await lanceDb.openTable('memories');
-        return;
-      }
-      
-      // Create table with initial dummy record (LanceDB requires at least one)
-      lanceTable = await lanceDb.createTable('memories', [{
-        id: '__init__',
-        vector: new Array(dimensions).fill(0),
-        text: '',
-      }]);
-      
-      // Delete the dummy
-      await lanceTable.delete('id = "__init__"');
-    } finally {
-      tableCreationPromise = null;
-    }
-  })();
-  
-  await tableCreationPromise;
+
+  return lanceDb.createTable(name, rows, { mode: 'overwrite' });
+}
+
+function vectorDimensions(schema: any): number | null {
+  const field = schema.fields.find((f: any) => f.name === 'vector');
+  return field?.type?.listSize ?? null;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -207,13 +621,40 @@ async function ensureLanceTable(dimensions: number): Promise<void> {
 
 export class LocalMemoryPlugin {
   private db: SqlJsDatabase | null = null;
-  private config: Required<PluginConfig>;
+  private config: ResolvedConfig;
+  private embedder: EmbeddingProvider;
   private dirty = false;
+  private dirtySince = 0;
+  private recallStatsPending = false; // recall counts not yet in memories.db
+  private flushTimer: NodeJS.Timeout | null = null;
+  private journalSeq = 0;
+  private journal: JournalFile;
+  private embeddingQueue: EmbeddingQueue | null = null;
+  private activeVectors: VectorTableRecord | null = null;
+  private buildingVectors: VectorTableRecord | null = null;
+  private vectorMigration: Promise<void> | null = null;
+  private lanceDb: any = null;
+  private lanceTable: any = null; // active table, serves recall
+  private buildTable: any = null; // table being filled after an embedding model switch
+  private tableCreations = new Map<string, Promise<any>>();
+  private retentionTimer: NodeJS.Timeout | null = null;
+  private cipher: StoreCipher | null = null; // set when encryption at rest is enabled
+  private sql: SqlJsStatic | null = null;
+  private key: EncryptionKey | null = null; // resolved encryptionKey, for reloads and exports
+  private lock: StoreLock | null = null; // held by the writer
+  private lockTimer: NodeJS.Timeout | null = null;
+  private readOnly = false;
+  private fileSignature = ''; // memories.db and journal as last loaded
+  private reloadTimer: NodeJS.Timeout | null = null;
+  private reloading: Promise<void> | null = null;
+  private events = new MemoryEventEmitter(() => this.config.logger);
+  private metricsRegistry = new MemoryMetrics(this.events);
   private initialized = false;
-  private embeddingDimensions = 384; // MiniLM default
 
   constructor(config: PluginConfig = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.embedder = this.config.embeddingProvider ?? new TransformersEmbeddingProvider(this.config.embeddingModel);
+    this.journal = new JournalFile(this.journalPath());
   }
 
   async init(): Promise<void> {
@@ -224,348 +665,2607 @@ export class LocalMemoryPlugin {
       mkdirSync(this.config.dataDir, { recursive: true });
     }
 
+    // One writer per dataDir; other instances open read-only
+    this.acquireLock();
+    try {
+      await this.open();
+    } catch (err) {
+      this.releaseLock();
+      throw err;
+    }
+
+    this.initialized = true;
+  }
+
+  private async open(): Promise<void> {
     // Initialize SQLite
-    const SQL = await initSqlJs();
-    const sqlitePath = join(this.config.dataDir, 'memories.db');
-    
-    if (existsSync(sqlitePath)) {
-      const buffer = readFileSync(sqlitePath);
-      this.db = new SQL.Database(buffer);
-    } else {
-      this.db = new SQL.Database();
+    this.sql = await initSqlJs();
+    this.key = this.config.encryptionKey ? await resolveEncryptionKey(this.config.encryptionKey) : null;
+    this.loadDatabase();
+    this.linkPendingEntities();
+    // Persist migrations and replayed entries before serving requests
+    this.flush();
+
+    if (this.readOnly) {
+      await this.openForReading();
+      return;
     }
-    this.initSqliteSchema();
 
     // Initialize LanceDB (if embeddings enabled)
     if (this.config.enableEmbeddings) {
       try {
-        await initLanceDB(this.config.dataDir);
+        this.lanceDb = await connectLanceDB(this.config.dataDir);
+        await this.loadVectorTables();
       } catch (err) {
-        console.warn('LanceDB init failed, falling back to SQLite-only:', err);
+        this.config.logger.warn('LanceDB init failed, falling back to SQLite-only:', err);
         this.config.enableEmbeddings = false;
+        this.emit('fallback-used', { operation: 'init', from: 'embeddings', to: 'sqlite-only', reason: errorMessage(err) });
       }
     }
 
-    this.initialized = true;
-  }
-
-  private initSqliteSchema(): void {
-    if (!this.db) throw new Error('Database not initialized');
+    // Resume embedding jobs left over from previous runs
+    if (this.config.enableEmbeddings) {
+      this.embeddingQueue = new EmbeddingQueue({
+        dueJobs: (now, limit) => this.dueEmbeddingJobs(now, limit),
+        nextDueAt: () => this.nextEmbeddingJobAt(),
+        process: jobs => this.embedJobs(jobs),
+        complete: jobs => {
+          for (const batch of idBatches(jobs)) {
+            this.execute(
+              `DELETE FROM embedding_jobs WHERE ${batch.map(() => '(memory_id = ? AND attempts = ? AND next_attempt_at = ?)').join(' OR ')}`,
+              batch.flatMap(job => [job.memoryId, job.attempts, job.nextAttemptAt])
+            );
+          }
+        },
+        retry: (id, attempts, nextAttemptAt, error) => {
+          if (attempts === 1) this.config.logger.warn(`Embedding memory ${id} failed, will retry:`, error);
+          this.execute(
+            'UPDATE embedding_jobs SET attempts = ?, next_attempt_at = ?, last_error = ? WHERE memory_id = ?',
+            [attempts, nextAttemptAt, error, id]
+          );
+          this.emit('embedding-failed', { memoryId: id, attempts, error, willRetry: true });
+        },
+        abandon: (id, attempts, error) => {
+          this.config.logger.warn(`Giving up embedding memory ${id} (run reindex() to retry):`, error);
+          this.execute('DELETE FROM embedding_jobs WHERE memory_id = ?', [id]);
+          this.emit('embedding-failed', { memoryId: id, attempts, error, willRetry: false });
+        },
+      }, this.config.embeddingQueue, () => this.config.logger);
+      this.embeddingQueue.kick();
+
+      // Resume (or start) re-embedding after a model switch
+      if (this.buildingVectors) {
+        this.startVectorMigration();
+      }
+    }
 
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS memories (
-        id TEXT PRIMARY KEY,
-        text TEXT NOT NULL,
-        text_lower TEXT NOT NULL,
-        category TEXT DEFAULT 'other',
-        importance REAL DEFAULT 0.7,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL,
-        session_key TEXT,
-        metadata TEXT,
-        has_embedding INTEGER DEFAULT 0
-      )
-    `);
+    if (this.config.enableEmbeddings && this.config.verifyOnInit !== 'off') {
+      await this.verifyAtInit();
+    }
 
-    this.db.run(`CREATE INDEX IF NOT EXISTS idx_memories_category ON memories(category)`);
-    this.db.run(`CREATE INDEX IF NOT EXISTS idx_memories_importance ON memories(importance)`);
-    this.db.run(`CREATE INDEX IF NOT EXISTS idx_memories_created_at ON memories(created_at)`);
-    this.db.run(`CREATE INDEX IF NOT EXISTS idx_memories_text_lower ON memories(text_lower)`);
-    
-    this.save();
+    // Expire and purge on startup, then on a schedule
+    this.enforceRetention();
+    if (this.config.retentionIntervalMs > 0) {
+      this.retentionTimer = setInterval(() => this.enforceRetention(), this.config.retentionIntervalMs);
+      this.retentionTimer.unref();
+    }
   }
 
-  private save(): void {
-    if (!this.db) return;
+  /**
+   * Read memories.db and replay the journal on top. A reader's copy then
+   * includes the writer's changes that are not flushed yet.
+   */
+  private loadDatabase(): void {
     const sqlitePath = join(this.config.dataDir, 'memories.db');
-    const data = this.db.export();
-    writeFileSync(sqlitePath, Buffer.from(data));
-    this.dirty = false;
+    this.fileSignature = this.storeFileSignature();
+
+    let journalCipher: StoreCipher | null = null;
+    if (existsSync(sqlitePath)) {
+      let buffer: Uint8Array = readFileSync(sqlitePath);
+      if (isEncrypted(buffer)) {
+        if (!this.key) {
+          throw new EncryptionKeyError('memories.db is encrypted. Set encryptionKey to open it.');
+        }
+        this.cipher = StoreCipher.derive(this.key, buffer);
+        buffer = this.cipher.decryptImage(buffer);
+        journalCipher = this.cipher;
+      } else if (this.key) {
+        // Plaintext store: encrypted from the first flush on
+        this.cipher = StoreCipher.derive(this.key);
+        this.dirty = true;
+      }
+      this.db = new this.sql!.Database(buffer);
+    } else {
+      this.cipher = this.key ? StoreCipher.derive(this.key) : null;
+      this.db = new this.sql!.Database();
+    }
+    this.registerSqlFunctions();
+    this.initSqliteSchema();
+    // The journal was written with the key of the image it belongs to
+    this.replayJournal(journalCipher);
   }
 
   // ───────────────────────────────────────────────────────────────────────────
-  // Public API
+  // Writer Lock & Read-Only Access
   // ───────────────────────────────────────────────────────────────────────────
 
+  private lockPath(): string {
+    return join(this.config.dataDir, 'memories.lock');
+  }
+
   /**
-   * Store a new memory (SQLite + optional vector)
+   * Become the writer, or open read-only: by choice, or in 'auto' mode when
+   * another live process holds the lock
    */
-  async store(params: MemoryStoreParams): Promise<Memory> {
-    if (!this.db) throw new Error('Database not initialized. Call init() first.');
+  private acquireLock(): void {
+    this.readOnly = this.config.access === 'read';
+    if (this.readOnly) return;
+
+    this.lock = StoreLock.tryAcquire(this.lockPath(), this.config.staleLockMs);
+    if (this.lock) {
+      this.lockTimer = setInterval(() => this.heartbeat(), this.config.staleLockMs / 3);
+      this.lockTimer.unref();
+      process.on('exit', this.releaseLockOnExit);
+      return;
+    }
 
-    const now = new Date().toISOString();
-    const memory: Memory = {
-      id: randomUUID(),
-      text: params.text,
-      category: params.category || 'other',
-      importance: params.importance ?? this.config.defaultImportance,
-      createdAt: now,
-      updatedAt: now,
-      sessionKey: params.sessionKey,
-      metadata: params.metadata,
-    };
+    const owner = readLockOwner(this.lockPath());
+    if (this.config.access === 'write') {
+      throw new StoreLockedError(`${this.config.dataDir} is locked by ${describeOwner(owner)}. Close it there, or open with access: 'read'.`, owner);
+    }
+    this.readOnly = true;
+    this.config.logger.warn(`${this.config.dataDir} is locked by ${describeOwner(owner)}; opening read-only`);
+    this.emit('fallback-used', { operation: 'init', from: 'read-write', to: 'read-only', reason: `locked by ${describeOwner(owner)}` });
+  }
 
-    // Store in SQLite
-    this.db.run(
-      `INSERT INTO memories (id, text, text_lower, category, importance, created_at, updated_at, session_key, metadata, has_embedding)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        memory.id,
-        memory.text,
-        memory.text.toLowerCase(),
-        memory.category,
-        memory.importance,
-        memory.createdAt,
-        memory.updatedAt,
-        memory.sessionKey || null,
-        memory.metadata ? JSON.stringify(memory.metadata) : null,
-        0,
-      ]
-    );
+  private heartbeat(): void {
+    if (!this.lock || this.lock.heartbeat()) return;
+
+    // Hung past staleLockMs and another process took over: stop writing
+    this.config.logger.error(`Lost the lock on ${this.config.dataDir} to ${describeOwner(readLockOwner(this.lockPath()))}; continuing read-only`);
+    this.readOnly = true;
+    this.releaseLock();
+    this.embeddingQueue?.stop();
+    this.embeddingQueue = null;
+    if (this.retentionTimer) {
+      clearInterval(this.retentionTimer);
+      this.retentionTimer = null;
+    }
+  }
 
-    // Store vector embedding (async, non-blocking)
-    if (this.config.enableEmbeddings && lanceDb) {
-      this.storeEmbedding(memory).catch(err => {
-        console.warn('Failed to store embedding:', err);
-      });
+  private releaseLockOnExit = (): void => this.lock?.release();
+
+  private releaseLock(): void {
+    if (this.lockTimer) {
+      clearInterval(this.lockTimer);
+      this.lockTimer = null;
     }
+    process.off('exit', this.releaseLockOnExit);
+    this.lock?.release();
+    this.lock = null;
+  }
 
-    this.save();
-    this.pruneOldMemories();
+  private assertWritable(): void {
+    if (!this.readOnly) return;
+    const owner = readLockOwner(this.lockPath());
+    throw new StoreLockedError(`${this.config.dataDir} is open read-only; ${describeOwner(owner)} holds the write lock`, owner);
+  }
 
-    return memory;
+  /**
+   * True when this instance can't write: opened with access: 'read', or
+   * another process held the lock at init()
+   */
+  isReadOnly(): boolean {
+    return this.readOnly;
   }
 
-  private async storeEmbedding(memory: Memory): Promise<void> {
-    try {
-      const vector = await embed(memory.text, this.config.embeddingModel);
-      this.embeddingDimensions = vector.length;
-      
-      await ensureLanceTable(vector.length);
-      
-      await lanceTable.add([{
-        id: memory.id,
-        vector,
-        text: memory.text,
-      }]);
+  private async openForReading(): Promise<void> {
+    if (this.config.enableEmbeddings) {
+      try {
+        this.lanceDb = await connectLanceDB(this.config.dataDir);
+        await this.openVectorsForReading();
+      } catch (err) {
+        this.config.logger.warn('LanceDB init failed, falling back to SQLite-only:', err);
+        this.config.enableEmbeddings = false;
+        this.emit('fallback-used', { operation: 'init', from: 'embeddings', to: 'sqlite-only', reason: errorMessage(err) });
+      }
+    }
 
-      // Mark as having embedding in SQLite
-      this.db?.run('UPDATE memories SET has_embedding = 1 WHERE id = ?', [memory.id]);
-      this.save();
-    } catch (err) {
-      console.warn('Embedding storage failed:', err);
+    if (this.config.reloadIntervalMs > 0) {
+      this.reloadTimer = setInterval(() => {
+        if (this.storeFileSignature() !== this.fileSignature) void this.reload();
+      }, this.config.reloadIntervalMs);
+      this.reloadTimer.unref();
     }
   }
 
   /**
-   * Recall memories - auto-routes to structured or semantic search
+   * Open the writer's active vector table as it is now. Vectors made by a
+   * different model than this instance's can't serve its queries.
    */
-  async recall(params: MemoryRecallParams): Promise<Memory[]> {
-    if (!this.db) throw new Error('Database not initialized. Call init() first.');
-
-    const limit = params.limit || 5;
-    const mode = params.mode || 'auto';
-    
-    // Determine query type
-    const queryType = mode === 'auto' ? detectQueryType(params.query) : mode;
-
-    let results: Memory[] = [];
+  private async openVectorsForReading(): Promise<void> {
+    const active = this.readVectorTables().find(r => r.status === 'active') ?? null;
+    const usable = active && active.model === this.embedder.id ? active : null;
 
-    if (queryType === 'structured' || !this.config.enableEmbeddings) {
-      // Use SQLite full-text search
-      results = this.structuredSearch(params, limit);
-    } else {
-      // Use semantic vector search + merge with structured
-      results = await this.semanticSearch(params, limit);
+    if (this.lanceTable && usable?.name === this.activeVectors?.name) {
+      await this.lanceTable.checkoutLatest();
+      return;
     }
-
-    // Apply noise filter
-    if (params.filterNoise !== false) {
-      const noiseRegexes = this.config.noisePatterns.map(p => new RegExp(p, 'i'));
-      results = results.filter(m => !noiseRegexes.some(re => re.test(m.text)));
+    this.lanceTable?.close();
+    this.lanceTable = null;
+    this.activeVectors = usable;
+    if (usable && (await this.lanceDb.tableNames()).includes(usable.name)) {
+      this.lanceTable = await this.lanceDb.openTable(usable.name);
     }
-
-    return results.slice(0, limit);
   }
 
-  private structuredSearch(params: MemoryRecallParams, limit: number): Memory[] {
-    const conditions: string[] = [];
+  // Changes whenever the writer appends to the journal or flushes
+  private storeFileSignature(): string {
+    return [join(this.config.dataDir, 'memories.db'), this.journalPath()]
+      .map(path => {
+        try {
+          const stat = statSync(path);
+          return `${stat.mtimeMs}:${stat.size}`;
+        } catch {
+          return '-';
+        }
+      })
+      .join('|');
+  }
+
+  /**
+   * Read-only instances: load the writer's latest changes now. Runs on its
+   * own every reloadIntervalMs when memories.db or the journal changed.
+   */
+  async reload(): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized. Call init() first.');
+    if (!this.readOnly) return;
+
+    this.reloading ??= (async () => {
+      const previous = this.db!;
+      try {
+        this.loadDatabase();
+        previous.close();
+      } catch (err) {
+        // E.g. the writer rotated to a key this instance doesn't have
+        if (this.db !== previous) this.db?.close();
+        this.db = previous;
+        this.config.logger.warn(`Failed to reload ${this.config.dataDir}, keeping the previous copy:`, err);
+        return;
+      }
+      if (this.lanceDb) {
+        try {
+          await this.openVectorsForReading();
+        } catch (err) {
+          this.config.logger.warn('Failed to reload vectors:', err);
+        }
+      }
+    })().finally(() => {
+      this.reloading = null;
+    });
+    return this.reloading;
+  }
+
+  private registerSqlFunctions(): void {
+    registerFtsFunctions(this.db!);
+    registerRelevanceFunction(this.db!, this.config.relevance);
+  }
+
+  private initSqliteSchema(): void {
+    if (!this.db) throw new Error('Database not initialized');
+
+    // Throws SchemaVersionError if the file is newer than this plugin
+    const pending = pendingMigrations(this.db);
+
+    // Keep a copy of the pre-migration file in case a migration goes wrong.
+    // enforceRetention() deletes it after the trash grace period.
+    const sqlitePath = join(this.config.dataDir, 'memories.db');
+    if (pending.length > 0 && existsSync(sqlitePath) && !this.readOnly) {
+      const fromVersion = pending[0].version - 1;
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+      copyFileSync(sqlitePath, `${sqlitePath}.v${fromVersion}-${stamp}.bak`);
+    }
+
+    if (runMigrations(this.db).length > 0) {
+      // Schema changes are not journaled; init() flushes them
+      this.dirty = true;
+    }
+  }
+
+  /**
+   * Re-apply mutations journaled after the last full write (e.g. before a crash)
+   */
+  private replayJournal(cipher: StoreCipher | null): void {
+    const stored = this.db!.exec(`SELECT value FROM persist_state WHERE key = 'journal_seq'`);
+    const flushedSeq = Number(stored[0]?.values[0]?.[0] ?? 0);
+    this.journalSeq = flushedSeq;
+
+    let entries: JournalEntry[];
+    try {
+      entries = readJournal(this.journalPath(), cipher).filter(e => e.seq > flushedSeq);
+    } catch (err) {
+      if (!cipher) throw err;
+      throw new EncryptionKeyError('memories.journal could not be decrypted with the configured key', { cause: err });
+    }
+    for (const entry of entries) {
+      this.db!.run(entry.sql, entry.params);
+      this.journalSeq = entry.seq;
+    }
+
+    if (entries.length > 0) {
+      this.dirty = true;
+    }
+  }
+
+  private journalPath(): string {
+    return join(this.config.dataDir, 'memories.journal');
+  }
+
+  /**
+   * Run a mutating statement: journal it, then schedule a debounced flush.
+   * Returns the number of rows modified.
+   */
+  private execute(sql: string, params: JournalParam[] = []): number {
+    if (!this.db) throw new Error('Database not initialized. Call init() first.');
+
+    this.db.run(sql, params);
+    const modified = this.db.getRowsModified();
+    // A reader only changes its own copy (migrations, entity links at load)
+    if (this.readOnly) return modified;
+    this.journal.append({ seq: ++this.journalSeq, sql, params }, this.cipher);
+    this.scheduleFlush();
+    return modified;
+  }
+
+  private scheduleFlush(): void {
+    const now = Date.now();
+    if (!this.dirty) {
+      this.dirty = true;
+      this.dirtySince = now;
+    }
+
+    if (this.config.flushIntervalMs <= 0) {
+      this.flush();
+      return;
+    }
+
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    const deadline = this.dirtySince + this.config.flushIntervalMs * FLUSH_MAX_DELAY_FACTOR;
+    const delay = Math.min(this.config.flushIntervalMs, Math.max(0, deadline - now));
+    this.flushTimer = setTimeout(() => this.flush(), delay);
+    this.flushTimer.unref();
+  }
+
+  /**
+   * Write pending changes to memories.db now (atomically) and reset the journal
+   */
+  flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (!this.db || !(this.dirty || this.recallStatsPending) || this.readOnly) return;
+
+    // Record how much of the journal this image contains
+    this.db.run(
+      `INSERT OR REPLACE INTO persist_state (key, value) VALUES ('journal_seq', ?)`,
+      [String(this.journalSeq)]
+    );
+
+    const sqlitePath = join(this.config.dataDir, 'memories.db');
+    const data = this.db.export();
+    // export() closes and re-opens the connection, dropping custom functions
+    this.registerSqlFunctions();
+    writeFileAtomic(sqlitePath, this.cipher ? this.cipher.encryptImage(data) : data);
+    this.journal.truncate();
+    this.dirty = false;
+    this.recallStatsPending = false;
+  }
+
+  /**
+   * Re-encrypt memories.db and the journal under a new key. Pass null to
+   * store them unencrypted from now on.
+   */
+  async rotateEncryptionKey(newKey: EncryptionKeySource | null): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized. Call init() first.');
+    this.assertWritable();
+
+    const key = newKey ? await resolveEncryptionKey(newKey) : null;
+
+    // Settle the journal under the old key first, so a crash mid-rotation
+    // never leaves old-key journal lines next to a new-key image
+    this.flush();
+    this.cipher = key ? StoreCipher.derive(key) : null;
+    this.key = key;
+    this.config.encryptionKey = newKey ?? undefined;
+    this.dirty = true;
+    this.flush();
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Public API
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Store a new memory (SQLite + optional vector)
+   */
+  async store(params: MemoryStoreParams): Promise<Memory> {
+    if (!this.db) throw new Error('Database not initialized. Call init() first.');
+    this.assertWritable();
+
+    // Merge into an existing near-duplicate instead of inserting
+    if (params.dedup ?? this.config.dedup) {
+      const category = params.category || 'other';
+      const vector = await this.dedupVector(params.text);
+      const duplicate = await this.findDuplicate(params.text, category, vector);
+      if (duplicate) {
+        return this.mergeDuplicate(duplicate, params);
+      }
+    }
+
+    const now = new Date().toISOString();
+    const tags = params.tags ? normalizeTags(params.tags) : [];
+    const memory: Memory = {
+      id: randomUUID(),
+      text: params.text,
+      category: params.category || 'other',
+      importance: params.importance ?? this.config.defaultImportance,
+      createdAt: now,
+      updatedAt: now,
+      sessionKey: params.sessionKey,
+      metadata: params.metadata,
+      tags: tags.length > 0 ? tags : undefined,
+      recallCount: 0,
+    };
+
+    // Store in SQLite
+    this.execute(
+      `INSERT INTO memories (id, text, text_lower, category, importance, created_at, updated_at, session_key, metadata, has_embedding)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        memory.id,
+        memory.text,
+        memory.text.toLowerCase(),
+        memory.category,
+        memory.importance,
+        memory.createdAt,
+        memory.updatedAt,
+        memory.sessionKey || null,
+        memory.metadata ? JSON.stringify(memory.metadata) : null,
+        0,
+      ]
+    );
+
+    if (tags.length > 0) {
+      this.setTags(memory.id, tags);
+    }
+    this.linkEntities([memory]);
+
+    // Queue the vector embedding (processed in the background)
+    this.enqueueEmbeddings([memory.id]);
+    this.emit('stored', { memory, merged: false });
+
+    this.pruneOldMemories();
+
+    return memory;
+  }
+
+  /**
+   * Extract memories from conversation messages and store them. Noise,
+   * questions and sentences without a memorable cue are skipped; duplicates
+   * of stored memories are merged into them. Every candidate is reported
+   * with the reason it was kept or skipped.
+   */
+  async ingest(params: MemoryIngestParams): Promise<MemoryIngestResult> {
+    if (!this.db) throw new Error('Database not initialized. Call init() first.');
+    if (!params.sessionKey) throw new Error('sessionKey is required');
+    if (!Array.isArray(params.messages)) throw new Error('messages must be an array');
+    if (!params.dryRun) this.assertWritable();
+
+    const noiseRegexes = this.config.noisePatterns.map(p => new RegExp(p, 'i'));
+    const result: MemoryIngestResult = { stored: 0, merged: 0, skipped: 0, decisions: [] };
+    const decide = (decision: IngestDecision) => {
+      result[decision.action]++;
+      result.decisions.push(decision);
+    };
+    const seen = new Set<string>();
+
+    for (const candidate of extractCandidates(params.messages, noiseRegexes, this.config.extraction)) {
+      const { text, role, category, importance, reason } = candidate;
+      if (candidate.skipReason || !category || importance === undefined || !reason) {
+        decide({ text, role, action: 'skipped', reason: candidate.skipReason ?? 'not classified' });
+        continue;
+      }
+
+      const normalized = normalizeText(text);
+      if (seen.has(normalized)) {
+        decide({ text, role, action: 'skipped', reason: 'repeated earlier in these messages', category, importance });
+        continue;
+      }
+      seen.add(normalized);
+
+      const duplicate = await this.findDuplicate(text, category, await this.dedupVector(text));
+      if (duplicate) {
+        const memory = params.dryRun
+          ? duplicate
+          : this.mergeDuplicate(duplicate, { text, importance, metadata: { source: 'ingest', role } });
+        decide({ text, role, action: 'merged', reason: `${reason}; duplicate of ${duplicate.id}`, category, importance, memory });
+        continue;
+      }
+
+      const memory = params.dryRun
+        ? undefined
+        : await this.store({ text, category, importance, sessionKey: params.sessionKey, metadata: { source: 'ingest', role }, dedup: false });
+      decide({ text, role, action: 'stored', reason, category, importance, memory });
+    }
+
+    return result;
+  }
+
+  /**
+   * Edit an existing memory. Changed text is re-embedded.
+   * Returns null if no memory has the given id.
+   */
+  async update(params: MemoryUpdateParams): Promise<Memory | null> {
+    if (!this.db) throw new Error('Database not initialized. Call init() first.');
+    this.assertWritable();
+
+    const existing = this.getMemoriesByIds([params.memoryId]).get(params.memoryId);
+    if (!existing) return null;
+
+    const tags = params.tags ? normalizeTags(params.tags) : undefined;
+    const memory: Memory = {
+      ...existing,
+      ...(tags ? { tags: tags.length > 0 ? tags : undefined } : {}),
+      text: params.text ?? existing.text,
+      category: params.category ?? existing.category,
+      importance: params.importance ?? existing.importance,
+      sessionKey: params.sessionKey === null ? undefined : params.sessionKey ?? existing.sessionKey,
+      metadata: params.metadata === null ? undefined : params.metadata ?? existing.metadata,
+      updatedAt: new Date().toISOString(),
+    };
+    const textChanged = memory.text !== existing.text;
+
+    this.execute(
+      `UPDATE memories
+       SET text = ?, text_lower = ?, category = ?, importance = ?, updated_at = ?, session_key = ?, metadata = ?,
+           has_embedding = CASE WHEN ? THEN 0 ELSE has_embedding END
+       WHERE id = ?`,
+      [
+        memory.text,
+        memory.text.toLowerCase(),
+        memory.category,
+        memory.importance,
+        memory.updatedAt,
+        memory.sessionKey || null,
+        memory.metadata ? JSON.stringify(memory.metadata) : null,
+        textChanged ? 1 : 0,
+        memory.id,
+      ]
+    );
+
+    for (const table of [this.lanceTable, this.buildTable].filter(Boolean)) {
+      try {
+        if (textChanged) {
+          await table.delete(`id = ${lanceString(memory.id)}`);
+        } else if (memory.category !== existing.category || memory.sessionKey !== existing.sessionKey) {
+          // Keep prefilter columns in step with SQLite
+          await table.update({
+            where: `id = ${lanceString(memory.id)}`,
+            values: { category: memory.category, session_key: memory.sessionKey || '' },
+          });
+        }
+      } catch (err) {
+        this.config.logger.warn('Failed to update vector:', err);
+      }
+    }
+
+    if (tags) {
+      this.setTags(memory.id, tags);
+    }
+    if (textChanged || params.metadata !== undefined) {
+      this.linkEntities([memory]);
+    }
+    if (textChanged) {
+      this.enqueueEmbeddings([memory.id]);
+    }
+
+    return memory;
+  }
+
+  /**
+   * Fetch one memory by id. Returns null if it doesn't exist or is in the trash.
+   */
+  get(params: MemoryGetParams): Memory | null {
+    if (!this.db) throw new Error('Database not initialized. Call init() first.');
+    return this.getMemoriesByIds([params.memoryId]).get(params.memoryId) ?? null;
+  }
+
+  /**
+   * Page through memories, newest first. Pass the returned nextCursor to get
+   * the next page; memories stored meanwhile don't shift the pages.
+   */
+  list(params: MemoryListParams = {}): MemoryListResult {
+    if (!this.db) throw new Error('Database not initialized. Call init() first.');
+
+    const limit = params.limit ?? 50;
+    const conditions: string[] = ['m.deleted_at IS NULL'];
+    const values: (string | number)[] = [];
+
+    if (params.cursor) {
+      const [createdAt, id] = decodeCursor(params.cursor);
+      conditions.push('(m.created_at, m.id) < (?, ?)');
+      values.push(createdAt, id);
+    }
+    if (params.category) {
+      conditions.push('m.category = ?');
+      values.push(params.category);
+    }
+    if (params.sessionKey) {
+      conditions.push('m.session_key = ?');
+      values.push(params.sessionKey);
+    }
+    const linked = this.linkedFilters(params);
+    conditions.push(...linked.conditions);
+    values.push(...linked.values);
+
+    // One extra row tells whether there is a next page
+    const stmt = this.db.prepare(`
+      SELECT m.id FROM memories m
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY m.created_at DESC, m.id DESC
+      LIMIT ?
+    `);
+    stmt.bind([...values, limit + 1]);
+    const ids: string[] = [];
+    while (stmt.step()) {
+      ids.push(stmt.get()[0] as string);
+    }
+    stmt.free();
+
+    const page = ids.slice(0, limit);
+    const found = this.getMemoriesByIds(page);
+    const memories = page.filter(id => found.has(id)).map(id => found.get(id)!);
+    const last = memories[memories.length - 1];
+    return {
+      memories,
+      ...(ids.length > limit && last ? { nextCursor: encodeCursor(last) } : {}),
+    };
+  }
+
+  /**
+   * Queue every memory without a vector for embedding (e.g. after the model
+   * was unavailable, or after jobs ran out of retries). Returns the number queued.
+   */
+  reindex(): number {
+    if (!this.db) throw new Error('Database not initialized. Call init() first.');
+    this.assertWritable();
+
+    const queued = this.execute(
+      `INSERT OR REPLACE INTO embedding_jobs (memory_id, attempts, next_attempt_at, last_error)
+       SELECT id, 0, 0, NULL FROM memories WHERE has_embedding = 0 AND deleted_at IS NULL`
+    );
+    this.embeddingQueue?.kick();
+    return queued;
+  }
+
+  /**
+   * Resolves once background embedding has no batch in flight and nothing due.
+   * Jobs backing off after a failure don't block.
+   */
+  async waitForIdle(): Promise<void> {
+    await this.embeddingQueue?.waitForIdle();
+    await this.vectorMigration;
+  }
+
+  private enqueueEmbeddings(ids: string[]): void {
+    if (!this.config.enableEmbeddings || ids.length === 0) return;
+
+    for (const batch of idBatches(ids)) {
+      this.execute(
+        `INSERT OR REPLACE INTO embedding_jobs (memory_id, attempts, next_attempt_at, last_error)
+         VALUES ${batch.map(() => '(?, 0, ?, NULL)').join(', ')}`,
+        batch.flatMap(id => [id, Date.now()])
+      );
+    }
+    this.embeddingQueue?.kick();
+  }
+
+  private dueEmbeddingJobs(now: number, limit: number): EmbeddingJob[] {
+    if (!this.db) return [];
+
+    const stmt = this.db.prepare(`
+      SELECT memory_id, attempts, next_attempt_at FROM embedding_jobs
+      WHERE next_attempt_at <= ?
+      ORDER BY next_attempt_at ASC
+      LIMIT ?
+    `);
+    stmt.bind([now, limit]);
+
+    const jobs: EmbeddingJob[] = [];
+    while (stmt.step()) {
+      const row = stmt.getAsObject() as { memory_id: string; attempts: number; next_attempt_at: number };
+      jobs.push({ memoryId: row.memory_id, attempts: row.attempts, nextAttemptAt: row.next_attempt_at });
+    }
+    stmt.free();
+
+    return jobs;
+  }
+
+  private nextEmbeddingJobAt(): number | null {
+    if (!this.db) return null;
+    const result = this.db.exec('SELECT MIN(next_attempt_at) FROM embedding_jobs');
+    return (result[0]?.values[0]?.[0] as number | null) ?? null;
+  }
+
+  /**
+   * Embed a batch of queued memories and store their vectors.
+   * Jobs for memories deleted in the meantime just complete. Memories edited
+   * in the meantime lose the vector just written and stay queued.
+   */
+  private async embedJobs(jobs: EmbeddingJob[]): Promise<EmbeddingBatchResult> {
+    const memories = [...this.getMemoriesByIds(jobs.map(j => j.memoryId)).values()];
+    if (memories.length === 0) return { failures: new Map(), superseded: [] };
+
+    await this.writeVectors('active', memories);
+
+    const ids = memories.map(m => m.id);
+    const edited = (live: Map<string, Memory>) =>
+      memories.filter(m => live.has(m.id) && !sameVersion(m, live.get(m.id)!)).map(m => m.id);
+
+    // Mark as having embedding in SQLite
+    const live = this.getMemoriesByIds(ids);
+    const stale = new Set(edited(live));
+    const embedded = ids.filter(id => live.has(id) && !stale.has(id));
+    for (const batch of idBatches(embedded)) {
+      this.execute(`UPDATE memories SET has_embedding = 1 WHERE id IN (${batch.map(() => '?').join(',')})`, batch);
+    }
+
+    // Forgotten while being embedded: their vectors were deleted before this write.
+    // Edited: the vector was made from the old text or carries old filters.
+    await this.deleteVectors(ids.filter(id => !live.has(id) || stale.has(id)));
+
+    // Edited during that delete: update() dropped or fixed their vectors, but run them again
+    return { failures: new Map(), superseded: edited(this.getMemoriesByIds(ids)) };
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Vector Tables & Model Switching
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Model whose vectors are in the active table - queries must use the same one
+   */
+  private activeModel(): string {
+    return this.activeVectors?.model ?? this.embedder.id;
+  }
+
+  private providerFor(model: string): EmbeddingProvider {
+    const provider = model === this.embedder.id ? this.embedder : providerForId(model);
+    if (!provider) {
+      throw new Error(`No embedding provider available for ${model}; semantic search resumes once re-embedding finishes`);
+    }
+    return provider;
+  }
+
+  private async embedQuery(text: string): Promise<number[]> {
+    const [vector] = await this.providerFor(this.activeModel()).embed([text]);
+    return vector;
+  }
+
+  private readVectorTables(): VectorTableRecord[] {
+    const stmt = this.db!.prepare('SELECT name, model, dimensions, status, cursor, started_at FROM vector_tables');
+    const records: VectorTableRecord[] = [];
+    while (stmt.step()) {
+      const row = stmt.getAsObject() as any;
+      records.push({
+        name: row.name,
+        model: row.model,
+        dimensions: row.dimensions,
+        status: row.status,
+        cursor: row.cursor,
+        startedAt: row.started_at,
+      });
+    }
+    stmt.free();
+    return records;
+  }
+
+  private saveVectorTable(record: VectorTableRecord): void {
+    this.execute(
+      `INSERT OR REPLACE INTO vector_tables (name, model, dimensions, status, cursor, started_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [record.name, record.model, record.dimensions, record.status, record.cursor, record.startedAt]
+    );
+  }
+
+  /**
+   * Open the active vector table and detect an embedding model switch
+   */
+  private async loadVectorTables(): Promise<void> {
+    const records = this.readVectorTables();
+    const tables: string[] = await this.lanceDb.tableNames();
+    let active = records.find(r => r.status === 'active') ?? null;
+    let building = records.find(r => r.status === 'building') ?? null;
+
+    // Table from before models were recorded - assume the configured model
+    // produced it; a dimension mismatch is still caught on the next write
+    if (!active && tables.includes(LEGACY_VECTOR_TABLE)) {
+      const legacy = await this.lanceDb.openTable(LEGACY_VECTOR_TABLE);
+      active = {
+        name: LEGACY_VECTOR_TABLE,
+        model: this.embedder.id,
+        dimensions: vectorDimensions(await legacy.schema()),
+        status: 'active',
+        cursor: null,
+        startedAt: new Date().toISOString(),
+      };
+      this.saveVectorTable(active);
+    }
+
+    if (active && !tables.includes(active.name)) {
+      // Vector files were removed - embed everything again
+      this.config.logger.warn(`Vector table ${active.name} is missing, re-embedding all memories`);
+      this.resetActiveVectors(active);
+      active = null;
+    }
+
+    if (active) {
+      this.lanceTable = await migrateLanceTable(
+        this.lanceDb,
+        await this.lanceDb.openTable(active.name),
+        active.name,
+        ids => this.getMemoriesByIds(ids)
+      );
+    }
+
+    // Abandon a build for a model that is no longer configured
+    if (building && (!active || building.model !== this.embedder.id)) {
+      await this.dropVectorTable(building, tables);
+      building = null;
+    }
+
+    if (active && active.model !== this.embedder.id && !building) {
+      building = {
+        name: vectorTableName(this.embedder.id),
+        model: this.embedder.id,
+        dimensions: null,
+        status: 'building',
+        cursor: null,
+        startedAt: new Date().toISOString(),
+      };
+      // Leftovers from an earlier, unrecorded attempt
+      if (tables.includes(building.name)) {
+        await this.lanceDb.dropTable(building.name);
+      }
+      this.saveVectorTable(building);
+      this.config.logger.warn(
+        `Embedding model changed from ${active.model} to ${building.model}; ` +
+        `re-embedding memories. Recall keeps using ${active.model} until this finishes.`
+      );
+    }
+
+    if (building && tables.includes(building.name)) {
+      this.buildTable = await this.lanceDb.openTable(building.name);
+    }
+
+    this.activeVectors = active;
+    this.buildingVectors = building;
+  }
+
+  /**
+   * Forget the active table and queue every memory for embedding; the next
+   * vector written creates a new table
+   */
+  private resetActiveVectors(active: VectorTableRecord): void {
+    this.execute('DELETE FROM vector_tables WHERE name = ?', [active.name]);
+    this.execute('UPDATE memories SET has_embedding = 0');
+    this.execute(
+      `INSERT OR REPLACE INTO embedding_jobs (memory_id, attempts, next_attempt_at, last_error)
+       SELECT id, 0, 0, NULL FROM memories WHERE deleted_at IS NULL`
+    );
+  }
+
+  private async dropVectorTable(record: VectorTableRecord, tables?: string[]): Promise<void> {
+    this.execute('DELETE FROM vector_tables WHERE name = ?', [record.name]);
+    const existing = tables ?? await this.lanceDb.tableNames();
+    if (existing.includes(record.name)) {
+      await this.lanceDb.dropTable(record.name);
+    }
+  }
+
+  /**
+   * Embed memories with the target table's model and write them, replacing
+   * any existing vectors for the same ids. Pass `vectors` to skip embedding
+   * when they already come from that model (e.g. an import).
+   */
+  private async writeVectors(target: 'active' | 'building', memories: Memory[], precomputed?: number[][]): Promise<void> {
+    const record = target === 'active' ? this.activeVectors : this.buildingVectors;
+    const model = record?.model ?? this.embedder.id;
+
+    const vectors = precomputed ?? await this.providerFor(model).embed(memories.map(m => m.text));
+    const dimensions = vectors[0].length;
+    if (record?.dimensions && record.dimensions !== dimensions) {
+      throw new Error(
+        `Embedding model ${model} produced ${dimensions}-dimension vectors, ` +
+        `but vector table ${record.name} holds ${record.dimensions}-dimension vectors`
+      );
+    }
+
+    let table: any;
+    if (target === 'active') {
+      if (!this.activeVectors) {
+        // First vector ever: the configured model becomes the active one
+        this.activeVectors = {
+          name: vectorTableName(model),
+          model,
+          dimensions,
+          status: 'active',
+          cursor: null,
+          startedAt: new Date().toISOString(),
+        };
+        this.saveVectorTable(this.activeVectors);
+      }
+      this.lanceTable = this.lanceTable ?? await this.openOrCreateVectorTable(this.activeVectors.name, dimensions);
+      table = this.lanceTable;
+    } else {
+      const building = this.buildingVectors!;
+      if (!building.dimensions) {
+        building.dimensions = dimensions;
+        this.saveVectorTable(building);
+      }
+      this.buildTable = this.buildTable ?? await this.openOrCreateVectorTable(building.name, dimensions);
+      table = this.buildTable;
+    }
+
+    for (const batch of idBatches(memories.map(m => m.id))) {
+      await table.delete(`id IN (${batch.map(lanceString).join(', ')})`);
+    }
+    await table.add(memories.map((m, i) => toVectorRow(m, vectors[i])));
+  }
+
+  private async openOrCreateVectorTable(name: string, dimensions: number): Promise<any> {
+    // If another call is already creating the table, share its promise
+    let creation = this.tableCreations.get(name);
+    if (creation) return creation;
+
+    creation = (async () => {
+      const tables = await this.lanceDb.tableNames();
+      if (tables.includes(name)) {
+        return this.lanceDb.openTable(name);
+      }
+
+      // Create table with initial dummy record (LanceDB requires at least one)
+      const table = await this.lanceDb.createTable(name, [{
+        id: '__init__',
+        vector: new Array(dimensions).fill(0),
+        category: '',
+        created_at: '',
+        session_key: '',
+      }]);
+
+      // Delete the dummy
+      await table.delete('id = "__init__"');
+      return table;
+    })().finally(() => this.tableCreations.delete(name));
+
+    this.tableCreations.set(name, creation);
+    return creation;
+  }
+
+  private startVectorMigration(): void {
+    if (this.vectorMigration) return;
+
+    this.vectorMigration = this.runVectorMigration()
+      .catch(err => {
+        // After close() the build just stops; its cursor is saved
+        if (this.db) this.config.logger.warn('Re-embedding for the new model failed, will resume on next init():', err);
+      })
+      .finally(() => {
+        this.vectorMigration = null;
+      });
+  }
+
+  /**
+   * Re-embed every memory into the building table in created_at order,
+   * catch up on edits made meanwhile, then swap it in as the active table.
+   * Progress is stored in the cursor so a restart resumes where it left off.
+   */
+  private async runVectorMigration(): Promise<void> {
+    const building = this.buildingVectors!;
+    const { batchSize, maxAttempts, retryDelayMs } = { ...DEFAULT_EMBEDDING_QUEUE_CONFIG, ...this.config.embeddingQueue };
+    const isCurrent = () => this.db !== null && this.buildingVectors === building;
+
+    // Retry a step with backoff; gives up (until next init) after maxAttempts
+    const withRetry = async (step: () => Promise<void>) => {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          return await step();
+        } catch (err) {
+          if (attempt >= maxAttempts || !isCurrent()) throw err;
+          await new Promise(resolve => setTimeout(resolve, retryDelayMs * 2 ** (attempt - 1)).unref());
+        }
+      }
+    };
+
+    // Backfill
+    while (isCurrent()) {
+      const batch = this.memoriesAfter(building.cursor, batchSize);
+      if (batch.length === 0) break;
+
+      await withRetry(() => this.writeVectors('building', batch));
+      if (!isCurrent()) return;
+
+      const last = batch[batch.length - 1];
+      building.cursor = `${last.createdAt}|${last.id}`;
+      this.saveVectorTable(building);
+    }
+
+    // Catch up on memories edited after the backfill passed them
+    const catchUpStartedAt = new Date().toISOString();
+    const edited = [...this.getMemoriesByIds(this.idsUpdatedSince(building.startedAt)).values()];
+    for (let i = 0; i < edited.length && isCurrent(); i += batchSize) {
+      await withRetry(() => this.writeVectors('building', edited.slice(i, i + batchSize)));
+    }
+    if (!isCurrent()) return;
+
+    // Swap: the new table starts serving recall, the old one is dropped
+    const previous = this.activeVectors!;
+    building.status = 'active';
+    building.cursor = null;
+    this.saveVectorTable(building);
+    this.execute('DELETE FROM vector_tables WHERE name = ?', [previous.name]);
+
+    const previousTable = this.lanceTable;
+    this.lanceTable = this.buildTable;
+    this.buildTable = null;
+    this.activeVectors = building;
+    this.buildingVectors = null;
+
+    // Everything is in the new table except edits made during the catch-up
+    this.execute('UPDATE memories SET has_embedding = 1');
+    const stragglers = this.idsUpdatedSince(catchUpStartedAt);
+    for (const batch of idBatches(stragglers)) {
+      this.execute(`UPDATE memories SET has_embedding = 0 WHERE id IN (${batch.map(() => '?').join(',')})`, batch);
+    }
+    this.enqueueEmbeddings(stragglers);
+
+    previousTable?.close?.();
+    try {
+      await this.lanceDb.dropTable(previous.name);
+    } catch (err) {
+      this.config.logger.warn(`Failed to drop old vector table ${previous.name}:`, err);
+    }
+  }
+
+  private memoriesAfter(cursor: string | null, limit: number): Memory[] {
+    const [createdAt, id] = cursor ? cursor.split('|') : ['', ''];
+    const stmt = this.db!.prepare(`
+      SELECT id FROM memories
+      WHERE (created_at, id) > (?, ?) AND deleted_at IS NULL
+      ORDER BY created_at, id
+      LIMIT ?
+    `);
+    stmt.bind([createdAt, id, limit]);
+    const ids: string[] = [];
+    while (stmt.step()) {
+      ids.push((stmt.getAsObject() as { id: string }).id);
+    }
+    stmt.free();
+
+    const memories = this.getMemoriesByIds(ids);
+    return ids.filter(i => memories.has(i)).map(i => memories.get(i)!);
+  }
+
+  private idsUpdatedSince(since: string): string[] {
+    const stmt = this.db!.prepare('SELECT id FROM memories WHERE updated_at >= ? AND deleted_at IS NULL');
+    stmt.bind([since]);
+    const ids: string[] = [];
+    while (stmt.step()) {
+      ids.push((stmt.getAsObject() as { id: string }).id);
+    }
+    stmt.free();
+    return ids;
+  }
+
+  /**
+   * Recall memories - auto-routes to structured or semantic search,
+   * or runs both and fuses the results in hybrid mode. The results carry
+   * `diagnostics`: the path taken, any fallback and where the time went.
+   */
+  async recall(params: MemoryRecallParams): Promise<RecallResults> {
+    if (!this.db) throw new Error('Database not initialized. Call init() first.');
+    const started = performance.now();
+
+    // Dates and offset timestamps become UTC instants before any search compares them
+    params = {
+      ...params,
+      dateFrom: normalizeDateBound(params.dateFrom, 'from'),
+      dateTo: normalizeDateBound(params.dateTo, 'to'),
+    };
+
+    // A token budget picks from a wider pool; limit then only caps the count
+    const limit = params.tokenBudget ? Math.max(params.limit ?? 0, TOKEN_BUDGET_CANDIDATES) : params.limit || 5;
+    const mode = params.mode || 'auto';
+
+    // Reject malformed filters here rather than as a semantic-search fallback
+    this.linkedFilters(params);
+    
+    // Determine query type
+    const queryType = mode === 'auto' ? detectQueryType(params.query) : mode;
+    const trace: RecallTrace = { path: queryType, timings: {} };
+
+    // "yesterday", "last week", ... become a date range unless dates were given
+    const temporal = params.parseDates !== false && !params.dateFrom && !params.dateTo
+      ? parseTemporalExpression(params.query, { now: this.config.clock?.(), timeZone: this.config.timeZone })
+      : null;
+
+    let results: Memory[] = [];
+
+    if (!temporal) {
+      results = await this.search(params, queryType, limit, trace);
+    } else {
+      const ranged = { ...params, dateFrom: temporal.dateFrom, dateTo: temporal.dateTo };
+      if (buildFtsQuery(temporal.remainder)) {
+        results = await this.search({ ...ranged, query: temporal.remainder }, queryType, limit, trace);
+      }
+      // Nothing matched the words - list everything in the range
+      if (results.length === 0) {
+        results = this.structuredSearch({ ...ranged, query: '' }, limit, trace);
+        trace.path = 'structured';
+      }
+      // Nothing in the range either - the date words were probably content
+      if (results.length === 0) {
+        results = await this.search(params, queryType, limit, trace);
+      }
+    }
+    const candidates = results.length;
+
+    // Apply noise filter
+    if (params.filterNoise !== false) {
+      const noiseRegexes = this.config.noisePatterns.map(p => new RegExp(p, 'i'));
+      results = results.filter(m => !noiseRegexes.some(re => re.test(m.text)));
+    }
+
+    results = this.applyRelevance(results);
+    if (params.boostSessionKey) {
+      results = this.boostSession(results, params.boostSessionKey);
+    }
+    results = results.slice(0, limit);
+    if (params.expandEntities) {
+      results = results.concat(this.expandThroughEntities(results, params, limit));
+    }
+    if (params.tokenBudget) {
+      const packStarted = performance.now();
+      results = await this.packIntoBudget(results, params.tokenBudget, params);
+      addTiming(trace, 'packMs', packStarted);
+    }
+    this.recordRecall(results);
+
+    const diagnostics: RecallDiagnostics = {
+      mode,
+      path: trace.path,
+      fallback: trace.fallback,
+      dateRange: temporal ? { dateFrom: temporal.dateFrom, dateTo: temporal.dateTo } : undefined,
+      candidates,
+      returned: results.length,
+      timings: { totalMs: performance.now() - started, ...trace.timings },
+    };
+    // Not enumerable: handlers and JSON.stringify see a plain array
+    Object.defineProperty(results, 'diagnostics', { value: diagnostics });
+    this.emit('recalled', { query: params.query, memories: results, diagnostics });
+    return results as RecallResults;
+  }
+
+  /**
+   * Recall, then format the memories as a block ready to inject into a
+   * prompt. With tokenBudget, the whole block fits in the budget.
+   */
+  async recallContext(params: MemoryRecallParams): Promise<RecallContextResult> {
+    const memories = await this.recall(params);
+    const config = this.contextConfig();
+    const context = formatContext(memories, config);
+    return { context, memories: [...memories], tokens: context ? config.tokenCounter(context) : 0, diagnostics: memories.diagnostics };
+  }
+
+  private contextConfig(): Required<ContextConfig> {
+    return { ...DEFAULT_CONTEXT_CONFIG, ...this.config.context };
+  }
+
+  /**
+   * MMR selection of the candidates whose formatted lines, plus the header,
+   * fit in `budget` tokens
+   */
+  private async packIntoBudget(candidates: Memory[], budget: number, params: MemoryRecallParams): Promise<Memory[]> {
+    const config = this.contextConfig();
+
+    let vectors = new Map<string, number[]>();
+    try {
+      vectors = await this.readVectors(candidates.map(m => m.id));
+    } catch (err) {
+      // Similarity falls back to shared words
+      this.config.logger.warn('Failed to read vectors for diversity:', err);
+    }
+
+    const headerTokens = config.header ? config.tokenCounter(config.header) : 0;
+    return selectWithinBudget(
+      candidates.map(memory => ({ memory, vector: vectors.get(memory.id) })),
+      {
+        budget: budget - headerTokens,
+        // With the line break before it, so the lines joined still fit
+        cost: memory => config.tokenCounter(`\n${config.formatMemory(memory)}`),
+        diversity: params.diversity ?? config.diversity,
+        maxItems: params.limit,
+      }
+    );
+  }
+
+  private async search(params: MemoryRecallParams, queryType: SearchPath, limit: number, trace?: RecallTrace): Promise<Memory[]> {
+    if (queryType === 'structured' || !this.config.enableEmbeddings) {
+      // Use SQLite full-text search
+      if (trace) {
+        trace.path = 'structured';
+        if (queryType !== 'structured') trace.fallback = 'embeddings disabled';
+      }
+      return this.structuredSearch(params, limit, trace);
+    } else if (queryType === 'hybrid') {
+      // Run both paths and fuse them
+      return this.hybridSearch(params, limit, trace);
+    } else {
+      // Use semantic vector search + merge with structured
+      return this.semanticSearch(params, limit, trace);
+    }
+  }
+
+  /**
+   * Record that recall gave up on `from` and answered from structured search
+   */
+  private recallFallback(trace: RecallTrace | undefined, from: SearchPath, reason: string): void {
+    if (trace) {
+      trace.path = 'structured';
+      trace.fallback = reason;
+    }
+    this.emit('fallback-used', { operation: 'recall', from, to: 'structured', reason });
+  }
+
+  /**
+   * Attach effective scores and let them nudge scored results. Unscored
+   * results are already in effective-score order.
+   */
+  private applyRelevance(results: Memory[]): Memory[] {
+    const now = Date.now();
+    const adjusted = results.map(memory => {
+      const effective = effectiveScore(
+        { ...memory, recallCount: memory.recallCount ?? 0 },
+        this.config.relevance,
+        now
+      );
+      return {
+        ...memory,
+        effectiveScore: effective,
+        score: memory.score === undefined ? undefined : adjustScore(memory.score, effective, this.config.relevance),
+        scoreBreakdown: memory.scoreBreakdown && { ...memory.scoreBreakdown, relevance: effective },
+      };
+    });
+
+    if (adjusted.every(m => m.score === undefined)) return adjusted;
+    return adjusted.sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+  }
+
+  /**
+   * Move memories from `sessionKey` up: scores are multiplied by
+   * 1 + sessionBoost; unscored results are reordered by effective score
+   */
+  private boostSession(results: Memory[], sessionKey: string): Memory[] {
+    const factor = 1 + this.config.sessionBoost;
+    return results
+      .map(memory => ({
+        memory,
+        rank: (memory.score ?? memory.effectiveScore ?? 0) * (memory.sessionKey === sessionKey ? factor : 1),
+      }))
+      .sort((a, b) => b.rank - a.rank)
+      .map(({ memory, rank }) => (memory.score === undefined ? memory : { ...memory, score: rank }));
+  }
+
+  /**
+   * Access tracking: bump the recall count of everything returned.
+   *
+   * The counts only change the in-memory database, not the journal, so a
+   * recall never waits on an fsync. They reach disk with the next flush (after
+   * any write, or on close()); a crash before that loses them.
+   */
+  private recordRecall(results: Memory[]): void {
+    // A reader's copy is replaced on the next reload
+    if (results.length === 0 || this.readOnly || !this.db) return;
+
+    const now = new Date().toISOString();
+    for (const ids of idBatches(results.map(m => m.id))) {
+      this.db.run(
+        `UPDATE memories SET last_recalled_at = ?, recall_count = recall_count + 1
+         WHERE id IN (${ids.map(() => '?').join(',')})`,
+        [now, ...ids]
+      );
+    }
+    this.recallStatsPending = true;
+    for (const memory of results) {
+      memory.lastRecalledAt = now;
+      memory.recallCount = (memory.recallCount ?? 0) + 1;
+    }
+  }
+
+  private structuredSearch(params: MemoryRecallParams, limit: number, trace?: RecallTrace): Memory[] {
+    const started = performance.now();
+    const conditions: string[] = ['m.deleted_at IS NULL'];
+    const values: (string | number)[] = [];
+
+    // Full-text search (BM25-ranked when there is something to match)
+    const matchQuery = params.query ? buildFtsQuery(params.query) : null;
+    if (matchQuery) {
+      conditions.push(`${FTS_TABLE} MATCH ?`);
+      values.push(matchQuery);
+    }
+
+    // Category filter
+    if (params.category) {
+      conditions.push('m.category = ?');
+      values.push(params.category);
+    }
+
+    // Session filter
+    if (params.sessionKey) {
+      conditions.push('m.session_key = ?');
+      values.push(params.sessionKey);
+    }
+
+    // Entity, metadata and tag filters
+    const linked = this.linkedFilters(params);
+    conditions.push(...linked.conditions);
+    values.push(...linked.values);
+
+    // Date filters
+    if (params.dateFrom) {
+      conditions.push('m.created_at >= ?');
+      values.push(params.dateFrom);
+    }
+    if (params.dateTo) {
+      conditions.push('m.created_at <= ?');
+      values.push(params.dateTo);
+    }
+
+    const whereClause = `WHERE ${conditions.join(' AND ')}`;
+
+    // Keep boosted-session memories among the candidates of an unranked listing
+    let relevanceOrder = 'relevance(m.importance, m.created_at, m.last_recalled_at, m.recall_count)';
+    if (params.boostSessionKey && !matchQuery) {
+      relevanceOrder += ' * CASE WHEN m.session_key = ? THEN ? ELSE 1 END';
+      values.push(params.boostSessionKey, 1 + this.config.sessionBoost);
+    }
+
+    const sql = matchQuery
+      ? `
+      SELECT m.id, m.text, m.category, m.importance, m.created_at, m.updated_at, m.session_key, m.metadata,
+             m.last_recalled_at, m.recall_count, ${TAGS_COLUMN}, bm25(matchinfo(${FTS_TABLE}, 'pcnalx')) AS rank
+      FROM ${FTS_TABLE}
+      JOIN memories m ON m.id = ${FTS_TABLE}.id
+      ${whereClause}
+      ORDER BY rank DESC, relevance(m.importance, m.created_at, m.last_recalled_at, m.recall_count) DESC
+      LIMIT ?
+    `
+      : `
+      SELECT m.id, m.text, m.category, m.importance, m.created_at, m.updated_at, m.session_key, m.metadata,
+             m.last_recalled_at, m.recall_count, ${TAGS_COLUMN}
+      FROM memories m
+      ${whereClause}
+      ORDER BY ${relevanceOrder} DESC, m.created_at DESC
+      LIMIT ?
+    `;
+
+    values.push(limit * 2);
+
+    const stmt = this.db!.prepare(sql);
+    stmt.bind(values);
+
+    const rows: Memory[] = [];
+    while (stmt.step()) {
+      const row = stmt.getAsObject() as any;
+      rows.push({
+        id: row.id,
+        text: row.text,
+        category: row.category,
+        importance: row.importance,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        sessionKey: row.session_key || undefined,
+        metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+        tags: parseTags(row.tags),
+        lastRecalledAt: row.last_recalled_at || undefined,
+        recallCount: row.recall_count,
+        score: matchQuery ? normalizeBm25(row.rank) : undefined,
+      });
+    }
+    stmt.free();
+
+    addTiming(trace, 'textSearchMs', started);
+    return rows;
+  }
+
+  private async semanticSearch(params: MemoryRecallParams, limit: number, trace?: RecallTrace): Promise<Memory[]> {
+    let reason: string;
+    try {
+      const results = await this.vectorSearch(params, limit, trace);
+      if (results && results.length > 0) return results;
+      reason = results ? 'no semantic matches' : 'no vectors yet';
+    } catch (err) {
+      this.config.logger.warn('Semantic search failed, falling back to structured:', err);
+      reason = `semantic search failed: ${errorMessage(err)}`;
+    }
+    this.recallFallback(trace, 'semantic', reason);
+    return this.structuredSearch(params, limit, trace);
+  }
+
+  private async hybridSearch(params: MemoryRecallParams, limit: number, trace?: RecallTrace): Promise<Memory[]> {
+    const structured = this.structuredSearch(params, limit, trace);
+
+    let semantic: Memory[] | null = null;
+    try {
+      semantic = await this.vectorSearch(params, limit, trace);
+      if (!semantic) this.recallFallback(trace, 'hybrid', 'no vectors yet');
+    } catch (err) {
+      this.config.logger.warn('Semantic search failed, hybrid recall using structured results only:', err);
+      this.recallFallback(trace, 'hybrid', `semantic search failed: ${errorMessage(err)}`);
+    }
+
+    return fuseResults(structured, semantic ?? [], {
+      ...this.config.hybrid,
+      ranker: params.ranker ?? this.config.hybrid.ranker,
+      weights: { ...this.config.hybrid.weights, ...params.weights },
+    });
+  }
+
+  /**
+   * Vector similarity search. Returns null when no vector table exists yet.
+   */
+  private async vectorSearch(params: MemoryRecallParams, limit: number, trace?: RecallTrace): Promise<Memory[] | null> {
+    if (!this.lanceTable) return null;
+
+    const embedStarted = performance.now();
+    const queryVector = await this.embedQuery(params.query);
+    addTiming(trace, 'embedMs', embedStarted);
+
+    // Push filters down so they apply before top-k, not after
+    const filters: string[] = [];
+    if (params.category) filters.push(`category = ${lanceString(params.category)}`);
+    if (params.dateFrom) filters.push(`created_at >= ${lanceString(params.dateFrom)}`);
+    if (params.dateTo) filters.push(`created_at <= ${lanceString(params.dateTo)}`);
+    if (params.sessionKey) filters.push(`session_key = ${lanceString(params.sessionKey)}`);
+    // Metadata, tags and entities live in SQLite - pass the matching ids
+    // instead, one search per batch of ids, merged by distance
+    const allowed = this.prefilterIds(params);
+    if (allowed?.length === 0) return [];
+
+    const searchStarted = performance.now();
+    let searchResults: any[] = [];
+    for (const batch of allowed ? idBatches(allowed) : [null]) {
+      const where = batch ? [...filters, `id IN (${batch.map(lanceString).join(', ')})`] : filters;
+      let query = this.lanceTable.search(queryVector);
+      if (where.length > 0) {
+        query = query.where(where.join(' AND '));
+      }
+      searchResults.push(...await query.limit(limit * 2).toArray());
+    }
+    if (allowed && allowed.length > ID_BATCH_SIZE) {
+      searchResults = searchResults.sort((a, b) => (a._distance || 0) - (b._distance || 0)).slice(0, limit * 2);
+    }
+    addTiming(trace, 'vectorSearchMs', searchStarted);
+
+    // Get full memory data from SQLite for the matched IDs
+    const ids = searchResults.map((r: any) => r.id);
+    if (ids.length === 0) return [];
+
+    const memoryMap = this.getMemoriesByIds(ids);
+
+    // Return in order of semantic relevance, with scores
+    // LanceDB uses L2 distance by default. Convert to similarity score (0-1)
+    // For normalized vectors, L2 distance ranges from 0 to 2
+    return searchResults
+      .filter((r: any) => memoryMap.has(r.id))
+      .map((r: any) => ({
+        ...memoryMap.get(r.id)!,
+        score: Math.max(0, 1 - (r._distance || 0) / 2), // Normalize L2 to 0-1 similarity
+      }));
+  }
+
+  /**
+   * Delete memories (GDPR-compliant) - removes from both SQLite and vectors.
+   * Uses strict text matching (not semantic) to avoid accidental deletions.
+   * Deleted memories go to the trash and can be restored until the grace
+   * period ends, unless `permanent` is set.
+   */
+  async forget(params: MemoryForgetParams): Promise<MemoryForgetResult> {
+    if (!this.db) throw new Error('Database not initialized. Call init() first.');
+
+    let memories: Memory[] = [];
+
+    if (params.memoryId) {
+      // A permanent forget may also erase something already in the trash
+      memories = [...this.getMemoriesByIds([params.memoryId], params.permanent).values()];
+    } else if (params.query) {
+      // Use strict structured search for forget - don't want semantic "similar" deletions
+      memories = this.structuredSearch({ query: params.query, filterNoise: false }, 100);
+    }
+
+    if (params.dryRun) {
+      return { deleted: memories.length, memories };
+    }
+    this.assertWritable();
+
+    const reason = params.reason ?? 'forget';
+    const actor = params.actor ?? 'user';
+    const deleted = params.permanent
+      ? this.purgeMemories(memories, reason, actor)
+      : this.trashMemories(memories, reason, actor);
+    await this.deleteVectors(memories.map(m => m.id));
+
+    return { deleted };
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Consistency
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Compare the vector tables with SQLite: vectors of erased or trashed
+   * memories, memories marked as embedded without a vector, and tables whose
+   * vector size differs from the one recorded for their model
+   */
+  async verify(): Promise<VerifyReport> {
+    if (!this.db) throw new Error('Database not initialized. Call init() first.');
+
+    const report: VerifyReport = { consistent: true, orphanVectors: [], missingVectors: [], dimensionMismatches: [] };
+    if (!this.lanceDb) return report;
+
+    const live = new Set(this.queryIds('SELECT id FROM memories WHERE deleted_at IS NULL'));
+    const tables: [VectorTableRecord | null, any][] = [[this.activeVectors, this.lanceTable], [this.buildingVectors, this.buildTable]];
+    let activeIds = new Set<string>();
+
+    for (const [record, table] of tables) {
+      if (!record || !table) continue;
+
+      const actual = vectorDimensions(await table.schema());
+      if (record.dimensions && actual && actual !== record.dimensions) {
+        report.dimensionMismatches.push({ table: record.name, expected: record.dimensions, actual });
+      }
+
+      // Another process (e.g. the CLI) may have written since the table was opened
+      await table.checkoutLatest();
+      const ids: string[] = (await readAllRows(table, ['id'])).map((row: any) => row.id);
+      for (const id of ids) {
+        if (!live.has(id) && !report.orphanVectors.includes(id)) report.orphanVectors.push(id);
+      }
+      if (record === this.activeVectors) activeIds = new Set(ids);
+    }
+
+    // has_embedding refers to the active table only; a build tracks progress by cursor
+    for (const id of this.queryIds('SELECT id FROM memories WHERE has_embedding = 1 AND deleted_at IS NULL')) {
+      if (!activeIds.has(id)) report.missingVectors.push(id);
+    }
+
+    report.consistent =
+      report.orphanVectors.length === 0 && report.missingVectors.length === 0 && report.dimensionMismatches.length === 0;
+    return report;
+  }
+
+  /**
+   * Fix what verify() finds: delete orphan vectors, queue memories with a
+   * missing vector for embedding, and rebuild a table of the wrong size.
+   * Returns the report of what was fixed.
+   */
+  async repair(): Promise<VerifyReport> {
+    this.assertWritable();
+    const report = await this.verify();
+    if (report.consistent) return report;
+
+    for (const mismatch of report.dimensionMismatches) {
+      if (mismatch.table === this.activeVectors?.name) {
+        const active = this.activeVectors;
+        this.lanceTable?.close();
+        this.lanceTable = null;
+        this.activeVectors = null;
+        this.resetActiveVectors(active);
+        await this.lanceDb.dropTable(active.name);
+      } else if (mismatch.table === this.buildingVectors?.name) {
+        // The switch starts over on the next init()
+        this.buildTable?.close();
+        this.buildTable = null;
+        await this.dropVectorTable(this.buildingVectors);
+        this.buildingVectors = null;
+      }
+    }
+
+    await this.deleteVectors(report.orphanVectors);
+
+    for (const ids of idBatches(report.missingVectors)) {
+      const placeholders = ids.map(() => '?').join(',');
+      this.execute(`UPDATE memories SET has_embedding = 0 WHERE id IN (${placeholders})`, ids);
+      this.execute(
+        `INSERT OR REPLACE INTO embedding_jobs (memory_id, attempts, next_attempt_at, last_error)
+         SELECT id, 0, 0, NULL FROM memories WHERE id IN (${placeholders})`,
+        ids
+      );
+    }
+    this.embeddingQueue?.kick();
+
+    return report;
+  }
+
+  private async verifyAtInit(): Promise<void> {
+    try {
+      const report = this.config.verifyOnInit === 'repair' ? await this.repair() : await this.verify();
+      if (report.consistent) return;
+      this.config.logger.warn(
+        `Vector store ${this.config.verifyOnInit === 'repair' ? 'repaired' : 'inconsistent (run repair())'}: ` +
+        `${report.orphanVectors.length} orphan vectors, ${report.missingVectors.length} missing vectors, ` +
+        `${report.dimensionMismatches.length} tables with the wrong vector size`
+      );
+    } catch (err) {
+      this.config.logger.warn('Vector store verification failed:', err);
+    }
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Trash, Retention & Audit
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Bring a trashed memory back. Returns null if it is not in the trash or
+   * its grace period has passed.
+   */
+  async restore(params: MemoryRestoreParams): Promise<Memory | null> {
+    if (!this.db) throw new Error('Database not initialized. Call init() first.');
+    this.assertWritable();
+
+    const trashed = this.listTrash().find(m => m.id === params.memoryId);
+    if (!trashed || trashed.purgeAfter <= new Date().toISOString()) return null;
+
+    this.execute('UPDATE memories SET deleted_at = NULL, has_embedding = 0 WHERE id = ?', [trashed.id]);
+    this.appendAudit([trashed], 'restore', 'restore', params.actor ?? 'user');
+    this.enqueueEmbeddings([trashed.id]);
+
+    const { deletedAt: _deletedAt, purgeAfter: _purgeAfter, ...memory } = trashed;
+    return memory;
+  }
+
+  /**
+   * Memories in the trash, most recently deleted first
+   */
+  listTrash(): TrashedMemory[] {
+    if (!this.db) throw new Error('Database not initialized. Call init() first.');
+
+    const stmt = this.db.prepare(`SELECT id, deleted_at FROM memories WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC`);
+    const deletedAt = new Map<string, string>();
+    while (stmt.step()) {
+      const row = stmt.getAsObject() as { id: string; deleted_at: string };
+      deletedAt.set(row.id, row.deleted_at);
+    }
+    stmt.free();
+
+    const memories = this.getMemoriesByIds([...deletedAt.keys()], true);
+    const graceMs = this.config.trashRetentionDays * DAY_MS;
+    return [...deletedAt].filter(([id]) => memories.has(id)).map(([id, at]) => ({
+      ...memories.get(id)!,
+      deletedAt: at,
+      purgeAfter: new Date(new Date(at).getTime() + graceMs).toISOString(),
+    }));
+  }
+
+  /**
+   * Erase everything in the trash now. Returns the number erased.
+   */
+  emptyTrash(actor = 'user'): number {
+    if (!this.db) throw new Error('Database not initialized. Call init() first.');
+    this.assertWritable();
+    return this.purgeMemories(this.listTrash(), 'empty trash', actor);
+  }
+
+  /**
+   * Apply per-category retention rules and erase memories whose grace period
+   * in the trash has passed. Runs at init() and every retentionIntervalMs.
+   */
+  enforceRetention(): RetentionResult {
+    if (!this.db) throw new Error('Database not initialized. Call init() first.');
+    this.assertWritable();
+
+    const now = Date.now();
+    let expired = 0;
+    for (const [category, days] of Object.entries(this.config.retention)) {
+      if (days === undefined) continue;
+
+      const cutoff = new Date(now - days * DAY_MS).toISOString();
+      const stmt = this.db.prepare(
+        'SELECT id FROM memories WHERE category = ? AND created_at < ? AND deleted_at IS NULL'
+      );
+      stmt.bind([category, cutoff]);
+      const ids: string[] = [];
+      while (stmt.step()) {
+        ids.push((stmt.getAsObject() as { id: string }).id);
+      }
+      stmt.free();
+
+      const memories = [...this.getMemoriesByIds(ids).values()];
+      expired += this.trashMemories(memories, `retention: ${category} older than ${days} days`, SYSTEM_ACTOR);
+      void this.deleteVectors(ids);
+    }
+
+    const graceCutoff = new Date(now - this.config.trashRetentionDays * DAY_MS).toISOString();
+    const overdue = this.listTrash().filter(m => m.deletedAt <= graceCutoff);
+    const purged = this.purgeMemories(overdue, 'grace period ended', SYSTEM_ACTOR);
+    this.purgeMigrationBackups(now - this.config.trashRetentionDays * DAY_MS);
+
+    return { expired, purged };
+  }
+
+  /**
+   * Delete pre-migration copies of memories.db made before `cutoff`. Past the
+   * grace period they could still hold memories erased since.
+   */
+  private purgeMigrationBackups(cutoff: number): void {
+    for (const name of readdirSync(this.config.dataDir)) {
+      if (!MIGRATION_BACKUP_PATTERN.test(name)) continue;
+      const path = join(this.config.dataDir, name);
+      try {
+        if (statSync(path).mtimeMs <= cutoff) unlinkSync(path);
+      } catch (err) {
+        this.config.logger.warn(`Failed to delete migration backup ${name}:`, err);
+      }
+    }
+  }
+
+  /**
+   * The latest `limit` deletions, restores and purges, oldest first.
+   * Never contains memory text.
+   */
+  auditLog(params: { memoryId?: string; limit?: number } = {}): AuditEntry[] {
+    if (!this.db) throw new Error('Database not initialized. Call init() first.');
+
+    const stmt = this.db.prepare(`
+      SELECT seq, memory_id, action, reason, actor, category, at FROM audit_log
+      ${params.memoryId ? 'WHERE memory_id = ?' : ''}
+      ORDER BY seq DESC
+      LIMIT ?
+    `);
+    stmt.bind(params.memoryId ? [params.memoryId, params.limit ?? 100] : [params.limit ?? 100]);
+
+    const entries: AuditEntry[] = [];
+    while (stmt.step()) {
+      const row = stmt.getAsObject() as any;
+      entries.push({
+        seq: row.seq,
+        memoryId: row.memory_id,
+        action: row.action,
+        reason: row.reason,
+        actor: row.actor,
+        category: row.category || undefined,
+        at: row.at,
+      });
+    }
+    stmt.free();
+
+    return entries.reverse();
+  }
+
+  /**
+   * Move memories to the trash. Their vectors are removed separately
+   * (deleteVectors) and rebuilt on restore.
+   */
+  private trashMemories(memories: Memory[], reason: string, actor: string): number {
+    if (memories.length === 0) return 0;
+
+    const ids = memories.map(m => m.id);
+    const deletedAt = new Date().toISOString();
+    let trashed = 0;
+    for (const batch of idBatches(ids)) {
+      const placeholders = batch.map(() => '?').join(',');
+      trashed += this.execute(
+        `UPDATE memories SET deleted_at = ? WHERE id IN (${placeholders}) AND deleted_at IS NULL`,
+        [deletedAt, ...batch]
+      );
+      this.execute(`DELETE FROM embedding_jobs WHERE memory_id IN (${placeholders})`, batch);
+    }
+    this.appendAudit(memories, 'trash', reason, actor);
+    this.emitRemoval(ids, false, reason, actor);
+    return trashed;
+  }
+
+  /**
+   * Erase memories for good (text, FTS entry and queued jobs)
+   */
+  private purgeMemories(memories: Memory[], reason: string, actor: string): number {
+    if (memories.length === 0) return 0;
+
+    const ids = memories.map(m => m.id);
+    let purged = 0;
+    for (const batch of idBatches(ids)) {
+      const placeholders = batch.map(() => '?').join(',');
+      purged += this.execute(`DELETE FROM memories WHERE id IN (${placeholders})`, batch);
+      this.execute(`DELETE FROM embedding_jobs WHERE memory_id IN (${placeholders})`, batch);
+    }
+    this.appendAudit(memories, 'purge', reason, actor);
+    this.emitRemoval(ids, true, reason, actor);
+    return purged;
+  }
+
+  // Deletions the plugin makes on its own are "pruned", the rest "forgotten"
+  private emitRemoval(memoryIds: string[], permanent: boolean, reason: string, actor: string): void {
+    if (actor === SYSTEM_ACTOR) {
+      this.emit('pruned', { memoryIds, permanent, reason });
+    } else {
+      this.emit('forgotten', { memoryIds, permanent, reason, actor });
+    }
+  }
+
+  private appendAudit(memories: Memory[], action: AuditAction, reason: string, actor: string): void {
+    const at = new Date().toISOString();
+    for (const batch of idBatches(memories)) {
+      this.execute(
+        `INSERT INTO audit_log (memory_id, action, reason, actor, category, at)
+         VALUES ${batch.map(() => '(?, ?, ?, ?, ?, ?)').join(', ')}`,
+        batch.flatMap(m => [m.id, action, reason, actor, m.category, at])
+      );
+    }
+  }
+
+  private async deleteVectors(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    for (const table of [this.lanceTable, this.buildTable].filter(Boolean)) {
+      try {
+        for (const batch of idBatches(ids)) {
+          await table.delete(`id IN (${batch.map(lanceString).join(', ')})`);
+        }
+      } catch (err) {
+        // Left for verify() / repair() to find
+        this.config.logger.warn('Failed to delete vectors:', err);
+      }
+    }
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Sessions
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Sessions with live memories, most recently active first
+   */
+  listSessions(params: { limit?: number } = {}): SessionInfo[] {
+    if (!this.db) throw new Error('Database not initialized. Call init() first.');
+
+    const stmt = this.db.prepare(`
+      SELECT session_key, category, COUNT(*) AS count, MIN(created_at) AS first_at, MAX(created_at) AS last_at,
+             COALESCE(MAX(json_extract(metadata, '$.sessionSummary') = 1), 0) AS summarized
+      FROM memories
+      WHERE session_key IS NOT NULL AND session_key != '' AND deleted_at IS NULL
+      GROUP BY session_key, category
+    `);
+    const sessions = new Map<string, SessionInfo>();
+    while (stmt.step()) {
+      const row = stmt.getAsObject() as any;
+      const session = sessions.get(row.session_key);
+      if (!session) {
+        sessions.set(row.session_key, {
+          sessionKey: row.session_key,
+          count: row.count,
+          firstAt: row.first_at,
+          lastAt: row.last_at,
+          byCategory: { [row.category]: row.count },
+          summarized: row.summarized === 1,
+        });
+        continue;
+      }
+      session.count += row.count;
+      session.firstAt = row.first_at < session.firstAt ? row.first_at : session.firstAt;
+      session.lastAt = row.last_at > session.lastAt ? row.last_at : session.lastAt;
+      session.byCategory[row.category] = row.count;
+      session.summarized ||= row.summarized === 1;
+    }
+    stmt.free();
+
+    return [...sessions.values()]
+      .sort((a, b) => b.lastAt.localeCompare(a.lastAt))
+      .slice(0, params.limit ?? 50);
+  }
+
+  /**
+   * Condense a session's conversation memories into one summary memory,
+   * which replaces any earlier summary of the session. With `archive` the
+   * summarized memories go to the trash (restorable until purged).
+   */
+  async summarizeSession(params: SummarizeSessionParams): Promise<SessionSummaryResult> {
+    if (!this.db) throw new Error('Database not initialized. Call init() first.');
+    this.assertWritable();
+    if (!params.sessionKey) throw new Error('sessionKey is required');
+
+    const stmt = this.db.prepare(
+      `SELECT id FROM memories WHERE session_key = ? AND category = 'conversation' AND deleted_at IS NULL`
+    );
+    stmt.bind([params.sessionKey]);
+    const ids: string[] = [];
+    while (stmt.step()) {
+      ids.push(stmt.get()[0] as string);
+    }
+    stmt.free();
+
+    const memories = [...this.getMemoriesByIds(ids).values()].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    const previous = memories.filter(m => m.metadata?.sessionSummary === true);
+    const originals = memories.filter(m => m.metadata?.sessionSummary !== true);
+    if (originals.length === 0) {
+      return { summary: previous[previous.length - 1] ?? null, summarized: 0, archived: 0 };
+    }
+
+    // Earlier summaries are part of the input, so archived memories stay covered
+    const text = (this.config.summarizer
+      ? await this.config.summarizer(memories, params.sessionKey)
+      : extractiveSummary(memories)
+    ).trim();
+    if (!text) throw new Error(`Summarizer returned an empty summary for session ${params.sessionKey}`);
+
+    const summarizedIds = [
+      ...previous.flatMap(m => (Array.isArray(m.metadata?.summarizedIds) ? m.metadata.summarizedIds as string[] : [])),
+      ...originals.map(m => m.id),
+    ];
+    const summary = await this.store({
+      text,
+      category: 'conversation',
+      importance: Math.min(1, Math.max(...memories.map(m => m.importance)) + SUMMARY_IMPORTANCE_BOOST),
+      sessionKey: params.sessionKey,
+      metadata: { sessionSummary: true, summarizedIds },
+      dedup: false,
+    });
+
+    this.trashMemories(previous, `superseded by summary ${summary.id}`, SYSTEM_ACTOR);
+    const archived = params.archive
+      ? this.trashMemories(originals, `archived into summary ${summary.id}`, params.actor ?? 'user')
+      : 0;
+    await this.deleteVectors([...previous, ...(params.archive ? originals : [])].map(m => m.id));
+
+    return { summary, summarized: originals.length, archived };
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Entities
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Entities linked to live memories, most mentioned first. `query` keeps
+   * those whose name contains it.
+   */
+  listEntities(params: { query?: string; limit?: number } = {}): Entity[] {
+    if (!this.db) throw new Error('Database not initialized. Call init() first.');
+
+    const stmt = this.db.prepare(`
+      SELECT e.name, e.type, COUNT(*) AS memory_count
+      FROM entities e
+      JOIN memory_entities me ON me.entity_key = e.key
+      JOIN memories m ON m.id = me.memory_id AND m.deleted_at IS NULL
+      ${params.query ? 'WHERE instr(e.key, ?) > 0' : ''}
+      GROUP BY e.key
+      ORDER BY memory_count DESC, e.name
+      LIMIT ?
+    `);
+    stmt.bind([...(params.query ? [entityKey(params.query)] : []), params.limit ?? 50]);
+
+    const entities: Entity[] = [];
+    while (stmt.step()) {
+      const row = stmt.getAsObject() as any;
+      entities.push({ name: row.name, type: row.type || undefined, memoryCount: row.memory_count });
+    }
+    stmt.free();
+
+    return entities;
+  }
+
+  /**
+   * Entities that appear in the same memories as `entity`, by how many
+   * memories they share
+   */
+  relatedEntities(params: { entity: string; limit?: number }): Entity[] {
+    if (!this.db) throw new Error('Database not initialized. Call init() first.');
+
+    const stmt = this.db.prepare(`
+      SELECT e.name, e.type, COUNT(*) AS shared,
+             (SELECT COUNT(*) FROM memory_entities x JOIN memories xm ON xm.id = x.memory_id AND xm.deleted_at IS NULL
+              WHERE x.entity_key = e.key) AS memory_count
+      FROM memory_entities me
+      JOIN memories m ON m.id = me.memory_id AND m.deleted_at IS NULL
+      JOIN memory_entities other ON other.memory_id = me.memory_id AND other.entity_key != me.entity_key
+      JOIN entities e ON e.key = other.entity_key
+      WHERE me.entity_key = ?
+      GROUP BY e.key
+      ORDER BY shared DESC, memory_count DESC, e.name
+      LIMIT ?
+    `);
+    stmt.bind([entityKey(params.entity), params.limit ?? 10]);
+
+    const entities: Entity[] = [];
+    while (stmt.step()) {
+      const row = stmt.getAsObject() as any;
+      entities.push({ name: row.name, type: row.type || undefined, memoryCount: row.memory_count, sharedMemories: row.shared });
+    }
+    stmt.free();
+
+    return entities;
+  }
+
+  /**
+   * Replace the entity links of each memory with the entities it names now
+   */
+  private linkEntities(memories: Memory[]): void {
+    if (memories.length === 0) return;
+
+    const now = new Date().toISOString();
+    for (const memory of memories) {
+      // Keyed so a name listed twice (or in two spellings) is linked once
+      const refs = new Map<string, EntityRef>();
+      for (const ref of this.entitiesFor(memory)) {
+        const key = entityKey(ref.name);
+        if (key && !refs.has(key)) refs.set(key, ref);
+      }
+      const keys = [...refs.keys()];
+
+      if (keys.length > 0) {
+        this.execute(
+          `INSERT INTO entities (key, name, type, created_at)
+           VALUES ${keys.map(() => '(?, ?, ?, ?)').join(', ')}
+           ON CONFLICT(key) DO UPDATE SET type = COALESCE(excluded.type, entities.type)`,
+          [...refs].flatMap(([key, ref]) => [key, ref.name, ref.type ?? null, now])
+        );
+        this.execute(
+          `INSERT OR IGNORE INTO memory_entities (memory_id, entity_key) VALUES ${keys.map(() => '(?, ?)').join(', ')}`,
+          keys.flatMap(key => [memory.id, key])
+        );
+      }
+      // Unlinking last, so an entity that stays linked is never dropped as an orphan
+      this.execute(
+        `DELETE FROM memory_entities WHERE memory_id = ? AND entity_key NOT IN (${keys.map(() => '?').join(',')})`,
+        [memory.id, ...keys]
+      );
+    }
+
+    for (const batch of idBatches(memories.map(m => m.id))) {
+      this.execute(`UPDATE memories SET entities_linked = 1 WHERE id IN (${batch.map(() => '?').join(',')})`, batch);
+    }
+  }
+
+  /**
+   * Link memories stored before entities existed (or before a crash
+   * interrupted linking)
+   */
+  private linkPendingEntities(): void {
+    for (;;) {
+      const result = this.db!.exec(
+        `SELECT id FROM memories WHERE entities_linked = 0 LIMIT ${TRANSFER_BATCH_SIZE}`
+      );
+      const ids = (result[0]?.values ?? []).map(row => row[0] as string);
+      if (ids.length === 0) return;
+      this.linkEntities([...this.getMemoriesByIds(ids, true).values()]);
+    }
+  }
+
+  private entitiesFor(memory: Memory): EntityRef[] {
+    const listed = entitiesFromMetadata(memory.metadata);
+    if (listed) return listed;
+    if (this.config.entities.extract === false) return [];
+    return (this.config.entities.extractor ?? extractEntities)(memory.text);
+  }
+
+  /**
+   * Conditions for the recall filters stored outside the memories row:
+   * entity links, metadata and tags
+   */
+  private linkedFilters(params: Pick<MemoryRecallParams, 'entity' | 'where' | 'tags'>): { conditions: string[]; values: (string | number)[] } {
+    const conditions: string[] = [];
     const values: (string | number)[] = [];
 
-    // Text search
-    if (params.query) {
-      const words = params.query.toLowerCase().split(/\s+/).filter(w => w.length > 1);
-      // Filter out common query words
-      const searchWords = words.filter(w => !['what', 'did', 'when', 'where', 'how', 'the', 'is', 'are', 'was', 'were', 'my', 'you', 'last', 'this'].includes(w));
-      if (searchWords.length > 0) {
-        const likeConditions = searchWords.map(() => 'text_lower LIKE ?');
-        conditions.push(`(${likeConditions.join(' OR ')})`);
-        searchWords.forEach(word => values.push(`%${word}%`));
+    if (params.entity) {
+      conditions.push('m.id IN (SELECT memory_id FROM memory_entities WHERE entity_key = ?)');
+      values.push(entityKey(params.entity));
+    }
+    if (params.where) {
+      const compiled = compileMetadataFilter(params.where);
+      conditions.push(...compiled.conditions);
+      values.push(...compiled.values);
+    }
+    if (params.tags) {
+      const tags = normalizeTags(params.tags);
+      if (tags.length > 0) {
+        conditions.push(
+          `m.id IN (SELECT memory_id FROM memory_tags WHERE tag IN (${tags.map(() => '?').join(',')})
+                    GROUP BY memory_id HAVING COUNT(*) = ?)`
+        );
+        values.push(...tags, tags.length);
+      }
+    }
+
+    return { conditions, values };
+  }
+
+  /**
+   * Ids of live memories passing the linked filters, or null when the recall
+   * has none
+   */
+  private prefilterIds(params: MemoryRecallParams): string[] | null {
+    const { conditions, values } = this.linkedFilters(params);
+    if (conditions.length === 0) return null;
+
+    const stmt = this.db!.prepare(`SELECT m.id FROM memories m WHERE m.deleted_at IS NULL AND ${conditions.join(' AND ')}`);
+    stmt.bind(values);
+    const ids: string[] = [];
+    while (stmt.step()) {
+      ids.push(stmt.get()[0] as string);
+    }
+    stmt.free();
+    return ids;
+  }
+
+  private setTags(memoryId: string, tags: string[]): void {
+    this.execute('DELETE FROM memory_tags WHERE memory_id = ?', [memoryId]);
+    if (tags.length === 0) return;
+    this.execute(
+      `INSERT INTO memory_tags (memory_id, tag) VALUES ${tags.map(() => '(?, ?)').join(', ')}`,
+      tags.flatMap(tag => [memoryId, tag])
+    );
+  }
+
+  /**
+   * Memories one hop away from `results` through a shared entity, most shared
+   * entities first. The recall's filters apply; its query doesn't.
+   */
+  private expandThroughEntities(results: Memory[], params: MemoryRecallParams, limit: number): Memory[] {
+    if (results.length === 0) return [];
+
+    const ids = results.map(m => m.id);
+    const placeholders = ids.map(() => '?').join(',');
+    const conditions = ['m.deleted_at IS NULL', `me.memory_id IN (${placeholders})`, `other.memory_id NOT IN (${placeholders})`];
+    const values: (string | number)[] = [...ids, ...ids];
+    if (params.category) {
+      conditions.push('m.category = ?');
+      values.push(params.category);
+    }
+    if (params.sessionKey) {
+      conditions.push('m.session_key = ?');
+      values.push(params.sessionKey);
+    }
+    if (params.dateFrom) {
+      conditions.push('m.created_at >= ?');
+      values.push(params.dateFrom);
+    }
+    if (params.dateTo) {
+      conditions.push('m.created_at <= ?');
+      values.push(params.dateTo);
+    }
+    const { entity: _entity, ...rest } = params;
+    const linked = this.linkedFilters(rest);
+    conditions.push(...linked.conditions);
+    values.push(...linked.values);
+
+    const stmt = this.db!.prepare(`
+      SELECT DISTINCT other.memory_id AS id, e.name
+      FROM memory_entities me
+      JOIN memory_entities other ON other.entity_key = me.entity_key
+      JOIN memories m ON m.id = other.memory_id
+      JOIN entities e ON e.key = me.entity_key
+      WHERE ${conditions.join(' AND ')}
+    `);
+    stmt.bind(values);
+    const via = new Map<string, string[]>();
+    while (stmt.step()) {
+      const row = stmt.getAsObject() as { id: string; name: string };
+      via.set(row.id, [...(via.get(row.id) ?? []), row.name]);
+    }
+    stmt.free();
+
+    const neighbours = this.applyRelevance([...this.getMemoriesByIds([...via.keys()]).values()]);
+    return neighbours
+      .map(memory => ({ ...memory, relatedVia: via.get(memory.id) }))
+      .sort((a, b) => b.relatedVia!.length - a.relatedVia!.length || (b.effectiveScore ?? 0) - (a.effectiveScore ?? 0))
+      .slice(0, limit);
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Export & Import
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Write every memory to a JSONL file (format in export.ts), oldest first.
+   * The file is written under a temporary name and renamed when complete.
+   * An encrypted store's export is encrypted with its key unless `plaintext`.
+   */
+  async exportMemories(params: MemoryExportParams): Promise<{ exported: number }> {
+    if (!this.db) throw new Error('Database not initialized. Call init() first.');
+
+    const vectorSource = params.includeVectors && this.lanceTable ? this.activeVectors : null;
+    // Fresh salt per export, so the file doesn't depend on the store's current image
+    const cipher = this.key && !params.plaintext ? StoreCipher.derive(this.key) : null;
+    const header: ExportHeader = {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      ...(vectorSource ? { embeddingModel: vectorSource.model, dimensions: vectorSource.dimensions ?? undefined } : {}),
+      ...(cipher ? { encryption: { salt: cipher.encodedSalt } } : {}),
+    };
+    const line = (record: ExportRecord) => {
+      const json = JSON.stringify(record);
+      return (cipher ? cipher.encryptLine(json) : json) + '\n';
+    };
+
+    mkdirSync(dirname(params.path), { recursive: true });
+    const tmpPath = `${params.path}.tmp`;
+    const file = await open(tmpPath, 'w');
+    let exported = 0;
+    try {
+      try {
+        await file.write(JSON.stringify(header) + '\n');
+
+        let cursor: string | null = null;
+        while (this.db) {
+          const batch = this.memoriesAfter(cursor, TRANSFER_BATCH_SIZE);
+          if (batch.length === 0) break;
+
+          const vectors = vectorSource ? await this.readVectors(batch.map(m => m.id)) : new Map<string, number[]>();
+          await file.write(batch.map(m => line(toExportRecord(m, vectors.get(m.id)))).join(''));
+
+          exported += batch.length;
+          const last = batch[batch.length - 1];
+          cursor = `${last.createdAt}|${last.id}`;
+        }
+        await file.sync();
+      } finally {
+        await file.close();
       }
+      renameSync(tmpPath, params.path);
+    } catch (err) {
+      // Don't leave a partial (possibly plaintext) copy behind
+      try {
+        unlinkSync(tmpPath);
+      } catch {
+        // Already gone
+      }
+      throw err;
     }
 
-    // Category filter
-    if (params.category) {
-      conditions.push('category = ?');
-      values.push(params.category);
-    }
+    return { exported };
+  }
 
-    // Date filters
-    if (params.dateFrom) {
-      conditions.push('created_at >= ?');
-      values.push(params.dateFrom);
+  /**
+   * Load memories from a file written by exportMemories(). The whole file is
+   * validated before anything is written; an encrypted file needs the key it
+   * was exported with as encryptionKey. Vectors are reused when they come
+   * from the active embedding model; everything else is queued for embedding.
+   */
+  async importMemories(params: MemoryImportParams): Promise<MemoryImportResult> {
+    if (!this.db) throw new Error('Database not initialized. Call init() first.');
+    this.assertWritable();
+
+    const onConflict = params.onConflict ?? 'skip';
+    const result: MemoryImportResult = { imported: 0, merged: 0, overwritten: 0, skipped: 0, reembedded: 0 };
+
+    // A bad line aborts before any change
+    await validateExport(params.path, this.key);
+
+    let batch: ExportRecord[] = [];
+    let header: ExportHeader | null = null;
+    for await (const entry of readExport(params.path, this.key)) {
+      header = entry.header;
+      batch.push(entry.record);
+      if (batch.length >= TRANSFER_BATCH_SIZE) {
+        await this.importBatch(batch, header, onConflict, result);
+        batch = [];
+      }
     }
-    if (params.dateTo) {
-      conditions.push('created_at <= ?');
-      values.push(params.dateTo);
+    if (header && batch.length > 0) {
+      await this.importBatch(batch, header, onConflict, result);
     }
 
-    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    this.pruneOldMemories();
+    return result;
+  }
 
-    const sql = `
-      SELECT id, text, category, importance, created_at, updated_at, session_key, metadata
-      FROM memories
-      ${whereClause}
-      ORDER BY importance DESC, created_at DESC
-      LIMIT ?
-    `;
+  private async importBatch(
+    records: ExportRecord[],
+    header: ExportHeader,
+    onConflict: ImportConflictPolicy,
+    result: MemoryImportResult
+  ): Promise<void> {
+    const ids = records.map(r => r.id);
+    const existing = this.getMemoriesByIds(ids);
+    // An imported copy of a trashed memory replaces the tombstone
+    const trashed = new Set([...this.getMemoriesByIds(ids, true).keys()].filter(id => !existing.has(id)));
+    const dimensions = this.activeVectors?.dimensions ?? header.dimensions;
+    const vectorsUsable = this.config.enableEmbeddings && header.embeddingModel === this.activeModel();
+
+    // Keyed by id so a repeated id within a file keeps only its last version
+    const withVectors = new Map<string, { memory: Memory; vector: number[] }>();
+    const toEmbed = new Map<string, Memory>();
+
+    for (const { vector, ...record } of records) {
+      const incoming: Memory = {
+        ...record,
+        category: record.category as MemoryCategory,
+        importance: record.importance ?? this.config.defaultImportance,
+        tags: record.tags ? normalizeTags(record.tags) : undefined,
+      };
+      const current = existing.get(incoming.id);
+
+      let memory: Memory;
+      if (!current) {
+        memory = incoming;
+        result.imported++;
+      } else if (onConflict === 'skip') {
+        result.skipped++;
+        continue;
+      } else if (onConflict === 'overwrite') {
+        memory = incoming;
+        result.overwritten++;
+      } else {
+        memory = mergeMemory(current, incoming);
+        result.merged++;
+      }
 
-    values.push(limit * 2);
+      const values = [
+        memory.text,
+        memory.text.toLowerCase(),
+        memory.category,
+        memory.importance,
+        memory.createdAt,
+        memory.updatedAt,
+        memory.sessionKey || null,
+        memory.metadata ? JSON.stringify(memory.metadata) : null,
+        memory.lastRecalledAt || null,
+        memory.recallCount ?? 0,
+      ];
+      if (current || trashed.has(memory.id)) {
+        this.execute(
+          `UPDATE memories
+           SET text = ?, text_lower = ?, category = ?, importance = ?, created_at = ?, updated_at = ?,
+               session_key = ?, metadata = ?, last_recalled_at = ?, recall_count = ?, has_embedding = 0, deleted_at = NULL
+           WHERE id = ?`,
+          [...values, memory.id]
+        );
+        if (trashed.delete(memory.id)) {
+          this.appendAudit([memory], 'restore', 'import', 'user');
+        }
+      } else {
+        this.execute(
+          `INSERT INTO memories (id, text, text_lower, category, importance, created_at, updated_at, session_key, metadata,
+                                 last_recalled_at, recall_count, has_embedding)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0)`,
+          [memory.id, ...values]
+        );
+      }
+      this.setTags(memory.id, memory.tags ?? []);
+      existing.set(memory.id, memory);
+
+      // A merge may have kept the stored text, which the imported vector doesn't describe
+      withVectors.delete(memory.id);
+      toEmbed.delete(memory.id);
+      if (vectorsUsable && vector && memory.text === incoming.text && (!dimensions || vector.length === dimensions)) {
+        withVectors.set(memory.id, { memory, vector });
+      } else {
+        toEmbed.set(memory.id, memory);
+      }
+    }
 
-    const stmt = this.db!.prepare(sql);
-    stmt.bind(values);
+    this.linkEntities([...withVectors.values()].map(e => e.memory).concat([...toEmbed.values()]));
 
-    const rows: Memory[] = [];
-    while (stmt.step()) {
-      const row = stmt.getAsObject() as any;
-      rows.push({
-        id: row.id,
-        text: row.text,
-        category: row.category,
-        importance: row.importance,
-        createdAt: row.created_at,
-        updatedAt: row.updated_at,
-        sessionKey: row.session_key || undefined,
-        metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
-      });
+    if (!this.config.enableEmbeddings) return;
+
+    if (withVectors.size > 0) {
+      const entries = [...withVectors.values()];
+      try {
+        await this.writeVectors('active', entries.map(e => e.memory), entries.map(e => e.vector));
+        for (const batch of idBatches(entries.map(e => e.memory.id))) {
+          this.execute(`UPDATE memories SET has_embedding = 1 WHERE id IN (${batch.map(() => '?').join(',')})`, batch);
+        }
+      } catch (err) {
+        this.config.logger.warn('Failed to write imported vectors, re-embedding instead:', err);
+        for (const { memory } of entries) toEmbed.set(memory.id, memory);
+      }
     }
-    stmt.free();
 
-    return rows;
-  }
+    if (toEmbed.size > 0) {
+      // Drop stale vectors of replaced memories until the new ones land
+      const ids = [...toEmbed.keys()];
+      await this.deleteVectors(ids);
+      this.enqueueEmbeddings(ids);
+      result.reembedded += ids.length;
+    }
 
-  private async semanticSearch(params: MemoryRecallParams, limit: number): Promise<Memory[]> {
-    if (!lanceTable) {
-      return this.structuredSearch(params, limit);
+    // Imports keep their original timestamps, so a running model switch
+    // wouldn't see them as edited - embed them for the new model directly
+    if (this.buildingVectors) {
+      const memories = [...withVectors.values()].map(e => e.memory).concat([...toEmbed.values()]);
+      try {
+        await this.writeVectors('building', memories);
+      } catch (err) {
+        this.config.logger.warn('Failed to embed imported memories for the new model:', err);
+      }
     }
+  }
 
-    try {
-      const queryVector = await embed(params.query, this.config.embeddingModel);
-      
-      const searchResults = await lanceTable
-        .search(queryVector)
-        .limit(limit * 2)
-        .toArray();
+  private async readVectors(ids: string[]): Promise<Map<string, number[]>> {
+    const vectors = new Map<string, number[]>();
+    if (!this.lanceTable || ids.length === 0) return vectors;
 
-      // Get full memory data from SQLite for the matched IDs
-      const ids = searchResults.map((r: any) => r.id);
-      if (ids.length === 0) {
-        return this.structuredSearch(params, limit);
+    for (const batch of idBatches(ids)) {
+      const rows = await this.lanceTable
+        .query()
+        .where(`id IN (${batch.map(lanceString).join(', ')})`)
+        .select(['id', 'vector'])
+        .limit(batch.length)
+        .toArray();
+      for (const row of rows) {
+        vectors.set(row.id, Array.from(row.vector as ArrayLike<number>));
       }
+    }
+    return vectors;
+  }
 
-      const placeholders = ids.map(() => '?').join(',');
-      const stmt = this.db!.prepare(`
-        SELECT id, text, category, importance, created_at, updated_at, session_key, metadata
-        FROM memories
-        WHERE id IN (${placeholders})
-      `);
-      stmt.bind(ids);
+  // ───────────────────────────────────────────────────────────────────────────
+  // Observability
+  // ───────────────────────────────────────────────────────────────────────────
 
-      const memoryMap = new Map<string, Memory>();
-      while (stmt.step()) {
-        const row = stmt.getAsObject() as any;
-        memoryMap.set(row.id, {
-          id: row.id,
-          text: row.text,
-          category: row.category,
-          importance: row.importance,
-          createdAt: row.created_at,
-          updatedAt: row.updated_at,
-          sessionKey: row.session_key || undefined,
-          metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
-        });
-      }
-      stmt.free();
+  /**
+   * Subscribe to an event. Listeners run synchronously after the operation's
+   * writes; an exception in one is logged and does not fail the operation.
+   */
+  on<E extends MemoryEventName>(event: E, listener: MemoryEventListener<E>): this {
+    this.events.on(event, listener);
+    return this;
+  }
 
-      // Return in order of semantic relevance, with scores
-      // LanceDB uses L2 distance by default. Convert to similarity score (0-1)
-      // For normalized vectors, L2 distance ranges from 0 to 2
-      return searchResults
-        .filter((r: any) => memoryMap.has(r.id))
-        .map((r: any) => ({
-          ...memoryMap.get(r.id)!,
-          score: Math.max(0, 1 - (r._distance || 0) / 2), // Normalize L2 to 0-1 similarity
-        }));
+  off<E extends MemoryEventName>(event: E, listener: MemoryEventListener<E>): this {
+    this.events.off(event, listener);
+    return this;
+  }
 
-    } catch (err) {
-      console.warn('Semantic search failed, falling back to structured:', err);
-      return this.structuredSearch(params, limit);
+  once<E extends MemoryEventName>(event: E, listener: MemoryEventListener<E>): this {
+    this.events.once(event, listener);
+    return this;
+  }
+
+  private emit<E extends MemoryEventName>(event: E, payload: MemoryEvents[E]): void {
+    this.events.emit(event, payload);
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Maintenance
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Reclaim space: rebuild memories.db without free pages, merge the
+   * full-text index and delete superseded LanceDB versions
+   */
+  async vacuum(): Promise<VacuumResult> {
+    if (!this.db) throw new Error('Database not initialized. Call init() first.');
+    this.assertWritable();
+
+    const sqlitePath = join(this.config.dataDir, 'memories.db');
+    this.flush();
+    const bytesBefore = existsSync(sqlitePath) ? statSync(sqlitePath).size : 0;
+
+    // Like schema changes, these are not journaled; the flush below persists them
+    this.db.run(`INSERT INTO ${FTS_TABLE} (${FTS_TABLE}) VALUES ('optimize')`);
+    this.db.run('VACUUM');
+    this.dirty = true;
+    this.flush();
+
+    let vectorBytesRemoved = 0;
+    for (const table of [this.lanceTable, this.buildTable]) {
+      if (!table) continue;
+      const optimized = await table.optimize({ cleanupOlderThan: new Date() });
+      vectorBytesRemoved += optimized.prune.bytesRemoved;
     }
+
+    return { bytesBefore, bytesAfter: statSync(sqlitePath).size, vectorBytesRemoved };
   }
 
   /**
-   * Delete a memory (GDPR-compliant) - removes from both SQLite and vectors
-   * Uses strict text matching (not semantic) to avoid accidental deletions
+   * Check the store for problems: database integrity, the full-text index,
+   * capacity, embedding progress, vector consistency and the embedding provider
    */
-  async forget(params: MemoryForgetParams): Promise<{ deleted: number }> {
+  async doctor(): Promise<DoctorCheck[]> {
     if (!this.db) throw new Error('Database not initialized. Call init() first.');
 
-    let deleted = 0;
-    let idsToDelete: string[] = [];
+    const checks: DoctorCheck[] = [];
+    const check = (name: string, status: DoctorStatus, detail: string) => checks.push({ name, status, detail });
 
-    if (params.memoryId) {
-      idsToDelete = [params.memoryId];
-    } else if (params.query) {
-      // Use strict structured search for forget - don't want semantic "similar" deletions
-      const memories = this.structuredSearch({ query: params.query, filterNoise: false }, 100);
-      idsToDelete = memories.map(m => m.id);
+    const integrity = this.db.exec('PRAGMA integrity_check').flatMap(r => r.values.map(v => String(v[0])));
+    if (integrity.length === 1 && integrity[0] === 'ok') {
+      check('database', 'ok', `schema v${SCHEMA_VERSION}, ${this.cipher ? 'encrypted' : 'not encrypted'}`);
+    } else {
+      check('database', 'fail', integrity.slice(0, 3).join('; '));
     }
 
-    if (idsToDelete.length > 0) {
-      // Delete from SQLite
-      const placeholders = idsToDelete.map(() => '?').join(',');
-      this.db.run(`DELETE FROM memories WHERE id IN (${placeholders})`, idsToDelete);
-      deleted = this.db.getRowsModified();
+    if (!this.readOnly) {
+      check('access', 'ok', 'read-write, holds memories.lock');
+    } else if (this.config.access === 'read') {
+      check('access', 'ok', "read-only (access: 'read')");
+    } else {
+      check('access', 'warn', `read-only: ${describeOwner(readLockOwner(this.lockPath()))} holds memories.lock`);
+    }
 
-      // Delete from LanceDB
-      if (lanceTable) {
-        try {
-          for (const id of idsToDelete) {
-            await lanceTable.delete(`id = "${id}"`);
-          }
-        } catch (err) {
-          console.warn('Failed to delete vectors:', err);
-        }
+    const rows = this.count('SELECT COUNT(*) FROM memories');
+    const indexed = this.count(`SELECT COUNT(*) FROM ${FTS_TABLE}`);
+    check('full-text index', rows === indexed ? 'ok' : 'fail', `${indexed} of ${rows} memories indexed`);
+
+    const total = this.count('SELECT COUNT(*) FROM memories WHERE deleted_at IS NULL');
+    const capacity = `${total} of ${this.config.maxMemories} memories`;
+    check('capacity', total >= this.config.maxMemories * 0.9 ? 'warn' : 'ok', capacity);
+
+    if (!this.config.enableEmbeddings) {
+      check('embeddings', 'warn', 'disabled: recall uses full-text search only');
+      return checks;
+    }
+
+    const missing = this.count('SELECT COUNT(*) FROM memories WHERE has_embedding = 0 AND deleted_at IS NULL');
+    const queued = this.count('SELECT COUNT(*) FROM embedding_jobs');
+    const failing = this.count('SELECT COUNT(*) FROM embedding_jobs WHERE attempts > 0');
+    if (missing > queued) {
+      check('embeddings', 'warn', `${missing - queued} memories have no vector and none queued; run reindex`);
+    } else if (failing > 0) {
+      check('embeddings', 'warn', `${failing} of ${queued} queued memories failed to embed and are retrying`);
+    } else {
+      check('embeddings', 'ok', queued > 0 ? `${queued} memories queued for embedding` : `${total - missing} memories embedded`);
+    }
+
+    const report = await this.verify();
+    if (report.consistent) {
+      check('vectors', 'ok', 'consistent with SQLite');
+    } else {
+      const problems = [
+        `${report.orphanVectors.length} orphan`,
+        `${report.missingVectors.length} missing`,
+        ...report.dimensionMismatches.map(m => `${m.table} has ${m.actual} dimensions, expected ${m.expected}`),
+      ];
+      check('vectors', report.dimensionMismatches.length > 0 ? 'fail' : 'warn', `${problems.join(', ')}; run repair`);
+    }
+
+    const model = this.activeModel();
+    try {
+      const [vector] = await this.providerFor(model).embed(['doctor']);
+      const expected = this.activeVectors?.dimensions;
+      if (expected && vector.length !== expected) {
+        check('embedding provider', 'fail', `${model} returns ${vector.length} dimensions, the vector table has ${expected}`);
+      } else {
+        check('embedding provider', 'ok', `${model}, ${vector.length} dimensions`);
       }
+    } catch (err) {
+      check('embedding provider', 'fail', `${model}: ${errorMessage(err)}`);
+    }
 
-      this.save();
+    if (this.buildingVectors) {
+      check('model switch', 'warn', `re-embedding from ${model} to ${this.buildingVectors.model} in progress`);
     }
 
-    return { deleted };
+    return checks;
   }
 
   /**
    * Get memory stats
    */
-  stats(): { total: number; withEmbeddings: number; byCategory: Record<string, number> } {
+  stats(): MemoryStats {
     if (!this.db) throw new Error('Database not initialized. Call init() first.');
 
-    const totalStmt = this.db.prepare('SELECT COUNT(*) as count FROM memories');
+    const totalStmt = this.db.prepare('SELECT COUNT(*) as count FROM memories WHERE deleted_at IS NULL');
     totalStmt.step();
     const total = (totalStmt.getAsObject() as { count: number }).count;
     totalStmt.free();
 
-    const embeddingsStmt = this.db.prepare('SELECT COUNT(*) as count FROM memories WHERE has_embedding = 1');
+    const trashStmt = this.db.prepare('SELECT COUNT(*) as count FROM memories WHERE deleted_at IS NOT NULL');
+    trashStmt.step();
+    const inTrash = (trashStmt.getAsObject() as { count: number }).count;
+    trashStmt.free();
+
+    const embeddingsStmt = this.db.prepare('SELECT COUNT(*) as count FROM memories WHERE has_embedding = 1 AND deleted_at IS NULL');
     embeddingsStmt.step();
     const withEmbeddings = (embeddingsStmt.getAsObject() as { count: number }).count;
     embeddingsStmt.free();
@@ -573,6 +3273,7 @@ export class LocalMemoryPlugin {
     const categoryStmt = this.db.prepare(`
       SELECT category, COUNT(*) as count 
       FROM memories 
+      WHERE deleted_at IS NULL
       GROUP BY category
     `);
 
@@ -583,18 +3284,78 @@ export class LocalMemoryPlugin {
     }
     categoryStmt.free();
 
-    return { total, withEmbeddings, byCategory };
+    // Read from SQLite, so it is known even when LanceDB isn't loaded
+    const modelStmt = this.db.prepare(`SELECT model FROM vector_tables WHERE status = 'active'`);
+    const embeddingModel = modelStmt.step() ? (modelStmt.get()[0] as string) : null;
+    modelStmt.free();
+
+    return { total, withEmbeddings, inTrash, byCategory, embeddingModel };
+  }
+
+  /**
+   * Counters since this instance was created, recall latencies and the
+   * current stats(), in the Prometheus text format. Counters reset on restart.
+   */
+  metrics(): string {
+    const stats = this.stats();
+    const gauges: MetricSample[] = [
+      {
+        name: 'memories',
+        help: 'Memories stored, live or in the trash',
+        type: 'gauge',
+        values: [
+          { labels: { state: 'live' }, value: stats.total },
+          { labels: { state: 'trash' }, value: stats.inTrash },
+        ],
+      },
+      {
+        name: 'memories_by_category',
+        help: 'Live memories per category',
+        type: 'gauge',
+        values: Object.entries(stats.byCategory).map(([category, value]) => ({ labels: { category }, value })),
+      },
+      { name: 'memories_embedded', help: 'Live memories with a vector', type: 'gauge', values: [{ value: stats.withEmbeddings }] },
+      {
+        name: 'embedding_queue_length',
+        help: 'Memories waiting to be embedded',
+        type: 'gauge',
+        values: [{ value: this.count('SELECT COUNT(*) FROM embedding_jobs') }],
+      },
+    ];
+    return this.metricsRegistry.render(gauges);
   }
 
   /**
    * Close database connections
    */
   close(): void {
+    this.embeddingQueue?.stop();
+    this.embeddingQueue = null;
+
+    if (this.retentionTimer) {
+      clearInterval(this.retentionTimer);
+      this.retentionTimer = null;
+    }
+    if (this.reloadTimer) {
+      clearInterval(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+
     if (this.db) {
-      this.save();
+      this.flush();
       this.db.close();
       this.db = null;
     }
+    this.journal.close();
+    this.releaseLock();
+
+    this.lanceTable?.close();
+    this.buildTable?.close();
+    this.lanceDb?.close();
+    this.lanceTable = null;
+    this.buildTable = null;
+    this.lanceDb = null;
+
     this.initialized = false;
   }
 
@@ -602,6 +3363,150 @@ export class LocalMemoryPlugin {
   // Private Methods
   // ───────────────────────────────────────────────────────────────────────────
 
+  private queryIds(sql: string): string[] {
+    return this.db!.exec(sql).flatMap(result => result.values.map(row => row[0] as string));
+  }
+
+  private count(sql: string, params: (string | number)[] = []): number {
+    const stmt = this.db!.prepare(sql);
+    stmt.bind(params);
+    stmt.step();
+    const value = Number(stmt.get()[0] ?? 0);
+    stmt.free();
+    return value;
+  }
+
+  /**
+   * Vector for a near-duplicate check, or undefined when embeddings are off
+   * or fail (the check then falls back to text matching)
+   */
+  private async dedupVector(text: string): Promise<number[] | undefined> {
+    if (!this.config.enableEmbeddings || !this.lanceTable) return undefined;
+    try {
+      return await this.embedQuery(text);
+    } catch (err) {
+      this.config.logger.warn('Embedding for dedup failed, using text match only:', err);
+      this.emit('fallback-used', { operation: 'dedup', from: 'vector', to: 'text', reason: errorMessage(err) });
+      return undefined;
+    }
+  }
+
+  /**
+   * Find a memory in the same category that is a near-duplicate of `text`:
+   * identical after normalization, or above the vector similarity threshold.
+   */
+  private async findDuplicate(text: string, category: MemoryCategory, vector?: number[]): Promise<Memory | null> {
+    const normalized = normalizeText(text);
+
+    // Exact match after normalization - narrowed with an FTS phrase query.
+    // Shortest first: a short text's phrase also matches every longer text
+    // containing it, and an equal text has no words beyond the phrase.
+    if (normalized) {
+      const stmt = this.db!.prepare(`
+        SELECT m.id FROM ${FTS_TABLE}
+        JOIN memories m ON m.id = ${FTS_TABLE}.id
+        WHERE ${FTS_TABLE} MATCH ? AND m.category = ? AND m.deleted_at IS NULL
+        ORDER BY length(m.text_lower)
+        LIMIT 20
+      `);
+      stmt.bind([`"${normalized}"`, category]);
+      const ids: string[] = [];
+      while (stmt.step()) {
+        ids.push((stmt.getAsObject() as { id: string }).id);
+      }
+      stmt.free();
+
+      for (const candidate of this.getMemoriesByIds(ids).values()) {
+        if (normalizeText(candidate.text) === normalized) {
+          return candidate;
+        }
+      }
+    }
+
+    // Semantic near-duplicate
+    if (vector && this.lanceTable) {
+      const [nearest] = await this.lanceTable
+        .search(vector)
+        .where(`category = ${lanceString(category)}`)
+        .limit(1)
+        .toArray();
+      if (nearest && Math.max(0, 1 - (nearest._distance || 0) / 2) >= this.config.dedupThreshold) {
+        return this.getMemoriesByIds([nearest.id]).get(nearest.id) ?? null;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Fold a duplicate store into the existing memory: bump importance,
+   * merge metadata and touch updatedAt.
+   */
+  private mergeDuplicate(existing: Memory, params: MemoryStoreParams): Memory {
+    const incoming = params.importance ?? this.config.defaultImportance;
+    const tags = params.tags ? normalizeTags([...(existing.tags ?? []), ...params.tags]) : existing.tags;
+    const memory: Memory = {
+      ...existing,
+      importance: Math.min(1, Math.max(existing.importance, incoming) + DEDUP_IMPORTANCE_BOOST),
+      metadata: params.metadata ? { ...existing.metadata, ...params.metadata } : existing.metadata,
+      tags,
+      updatedAt: new Date().toISOString(),
+    };
+
+    this.execute(
+      'UPDATE memories SET importance = ?, metadata = ?, updated_at = ? WHERE id = ?',
+      [memory.importance, memory.metadata ? JSON.stringify(memory.metadata) : null, memory.updatedAt, memory.id]
+    );
+    if (params.tags) {
+      this.setTags(memory.id, memory.tags ?? []);
+    }
+    if (params.metadata) {
+      this.linkEntities([memory]);
+    }
+
+    this.emit('stored', { memory, merged: true });
+    return memory;
+  }
+
+  /**
+   * Look up memories by id. Trashed memories are left out unless asked for.
+   */
+  private getMemoriesByIds(ids: string[], includeTrashed = false): Map<string, Memory> {
+    const memoryMap = new Map<string, Memory>();
+    if (ids.length === 0) return memoryMap;
+
+    for (const batch of idBatches(ids)) {
+      const placeholders = batch.map(() => '?').join(',');
+      const stmt = this.db!.prepare(`
+        SELECT m.id, m.text, m.category, m.importance, m.created_at, m.updated_at, m.session_key, m.metadata,
+               m.last_recalled_at, m.recall_count, ${TAGS_COLUMN}
+        FROM memories m
+        WHERE m.id IN (${placeholders}) ${includeTrashed ? '' : 'AND m.deleted_at IS NULL'}
+      `);
+      stmt.bind(batch);
+
+      while (stmt.step()) {
+        const row = stmt.getAsObject() as any;
+        memoryMap.set(row.id, {
+          id: row.id,
+          text: row.text,
+          category: row.category,
+          importance: row.importance,
+          createdAt: row.created_at,
+          updatedAt: row.updated_at,
+          sessionKey: row.session_key || undefined,
+          metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+          tags: parseTags(row.tags),
+          lastRecalledAt: row.last_recalled_at || undefined,
+          recallCount: row.recall_count,
+        });
+      }
+      stmt.free();
+    }
+
+    return memoryMap;
+  }
+
   private pruneOldMemories(): void {
     const { total } = this.stats();
     if (total > this.config.maxMemories) {
@@ -609,8 +3514,9 @@ export class LocalMemoryPlugin {
       
       // Get IDs to delete
       const stmt = this.db!.prepare(`
-        SELECT id FROM memories 
-        ORDER BY importance ASC, created_at ASC 
+        SELECT id FROM memories
+        WHERE deleted_at IS NULL
+        ORDER BY relevance(importance, created_at, last_recalled_at, recall_count) ASC, created_at ASC
         LIMIT ?
       `);
       stmt.bind([toDelete]);
@@ -621,20 +3527,10 @@ export class LocalMemoryPlugin {
       }
       stmt.free();
 
-      if (idsToDelete.length > 0) {
-        // Delete from SQLite
-        const placeholders = idsToDelete.map(() => '?').join(',');
-        this.db!.run(`DELETE FROM memories WHERE id IN (${placeholders})`, idsToDelete);
-
-        // Delete from LanceDB
-        if (lanceTable) {
-          for (const id of idsToDelete) {
-            lanceTable.delete(`id = "${id}"`).catch(() => {});
-          }
-        }
-
-        this.save();
-      }
+      // Pruned memories stay restorable from the trash
+      const memories = [...this.getMemoriesByIds(idsToDelete).values()];
+      this.trashMemories(memories, `over maxMemories (${this.config.maxMemories})`, SYSTEM_ACTOR);
+      void this.deleteVectors(idsToDelete);
     }
   }
 }
@@ -643,59 +3539,219 @@ export class LocalMemoryPlugin {
 // Moltbot Plugin Interface
 // ─────────────────────────────────────────────────────────────────────────────
 
+/**
+ * Handler params in multi-tenant mode carry the namespace (user/agent id)
+ * whose store they operate on
+ */
+export type Namespaced<T> = T & { namespace?: string };
+
+export interface MoltbotPluginConfig extends PluginConfig {
+  multiTenant?: boolean; // route handlers to one isolated store per namespace
+}
+
 export interface MoltbotPlugin {
   id: string;
   name: string;
   version: string;
   slot: 'memory';
-  init: (config: PluginConfig) => Promise<void>;
+  init: (config: MoltbotPluginConfig) => Promise<void>;
+  /** Tool definitions for the host's registry, keyed by handler name */
+  schemas: Record<HandlerName, HandlerSchema>;
   handlers: {
-    memory_store: (params: MemoryStoreParams) => Promise<Memory>;
-    memory_recall: (params: MemoryRecallParams) => Promise<Memory[]>;
-    memory_forget: (params: MemoryForgetParams) => Promise<{ deleted: number }>;
+    memory_store: (params: Namespaced<MemoryStoreParams>) => Promise<Memory>;
+    memory_update: (params: Namespaced<MemoryUpdateParams>) => Promise<Memory | null>;
+    memory_ingest: (params: Namespaced<MemoryIngestParams>) => Promise<MemoryIngestResult>;
+    memory_recall: (params: Namespaced<MemoryRecallParams>) => Promise<Memory[]>;
+    memory_recall_context: (params: Namespaced<MemoryRecallParams>) => Promise<RecallContextResult>;
+    memory_get: (params: Namespaced<MemoryGetParams>) => Promise<Memory | null>;
+    memory_list: (params: Namespaced<MemoryListParams>) => Promise<MemoryListResult>;
+    memory_stats: (params?: Namespaced<{}>) => Promise<MemoryStats>;
+    memory_sessions: (params: Namespaced<{ limit?: number }>) => Promise<SessionInfo[]>;
+    memory_summarize_session: (params: Namespaced<SummarizeSessionParams>) => Promise<SessionSummaryResult>;
+    memory_entities: (params: Namespaced<MemoryEntitiesParams>) => Promise<Entity[]>;
+    memory_forget: (params: Namespaced<MemoryForgetParams>) => Promise<MemoryForgetResult>;
+    memory_restore: (params: Namespaced<MemoryRestoreParams>) => Promise<Memory | null>;
+    memory_export: (params: Namespaced<MemoryExportParams>) => Promise<{ exported: number }>;
+    memory_import: (params: Namespaced<MemoryImportParams>) => Promise<MemoryImportResult>;
   };
   shutdown: () => Promise<void>;
 }
 
-let pluginInstance: LocalMemoryPlugin | null = null;
+const NAMESPACE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,127}$/;
+
+// Folder of a store's dataDir that memory_export and memory_import work in
+const EXPORTS_DIR = 'exports';
 
 /**
- * Moltbot Plugin Export
+ * Create a Moltbot plugin object. Each plugin object owns its own stores, so
+ * several can live in one process.
  */
-export const plugin: MoltbotPlugin = {
-  id: 'moltbot-memory-local',
-  name: 'Local Memory (SQLite + Embeddings)',
-  version: '0.1.0',
-  slot: 'memory',
+export function createPlugin(): MoltbotPlugin {
+  let pluginConfig: MoltbotPluginConfig | null = null;
+  // '' is the single store of a non-multi-tenant plugin
+  const instances = new Map<string, Promise<LocalMemoryPlugin>>();
 
-  async init(config: PluginConfig = {}): Promise<void> {
-    pluginInstance = new LocalMemoryPlugin(config);
-    await pluginInstance.init();
-  },
+  const namespaceOf = (params: { namespace?: string }): string => {
+    if (!pluginConfig) throw new Error('Plugin not initialized');
 
-  handlers: {
-    async memory_store(params: MemoryStoreParams): Promise<Memory> {
-      if (!pluginInstance) throw new Error('Plugin not initialized');
-      return pluginInstance.store(params);
+    const namespace = pluginConfig.multiTenant ? params.namespace : '';
+    if (namespace === undefined) {
+      throw new Error('namespace is required in multi-tenant mode');
+    }
+    if (namespace && !NAMESPACE_PATTERN.test(namespace)) {
+      throw new Error(`Invalid namespace "${namespace}": use letters, digits, ".", "_" or "-"`);
+    }
+    return namespace;
+  };
+
+  const dataDirFor = (namespace: string): string => {
+    const dataDir = pluginConfig?.dataDir ?? DEFAULT_CONFIG.dataDir;
+    return namespace ? join(dataDir, 'tenants', namespace) : dataDir;
+  };
+
+  const instanceFor = (params: { namespace?: string }): Promise<LocalMemoryPlugin> => {
+    const namespace = namespaceOf(params);
+
+    let instance = instances.get(namespace);
+    if (!instance) {
+      const { multiTenant: _multiTenant, ...config } = pluginConfig!;
+      const memory = new LocalMemoryPlugin({ ...config, dataDir: dataDirFor(namespace) });
+      instance = memory.init().then(() => memory);
+      instances.set(namespace, instance);
+      // Let the next call retry a failed init
+      instance.catch(() => instances.delete(namespace));
+    }
+    return instance;
+  };
+
+  // Handler paths come from a model: keep them inside the store's exports/ folder
+  const transferPath = (handler: HandlerName, params: Namespaced<{ path: string }>): string => {
+    const dir = resolve(dataDirFor(namespaceOf(params)), EXPORTS_DIR);
+    const path = resolve(dir, params.path);
+    if (isAbsolute(params.path) || params.path.split(/[\\/]/).includes('..') || !path.startsWith(dir + sep)) {
+      throw new ValidationError(handler, [{ path: 'path', message: `must be a file name inside ${EXPORTS_DIR}/, without ".." or an absolute path` }]);
+    }
+    return path;
+  };
+
+  // Validate, then strip the routing field before it reaches the store
+  const route = async <T extends object>(handler: HandlerName, params: Namespaced<T>) => {
+    assertValid(handler, params, HANDLER_SCHEMAS[handler].parameters);
+    const { namespace: _namespace, ...rest } = params;
+    return { memory: await instanceFor(params), params: rest as T };
+  };
+
+  return {
+    id: 'moltbot-memory-local',
+    name: 'Local Memory (SQLite + Embeddings)',
+    version: '0.1.0',
+    slot: 'memory',
+    schemas: HANDLER_SCHEMAS,
+
+    async init(config: MoltbotPluginConfig = {}): Promise<void> {
+      pluginConfig = config;
+      // Single-store mode opens the store eagerly so config errors surface here
+      if (!config.multiTenant) {
+        await instanceFor({});
+      }
     },
 
-    async memory_recall(params: MemoryRecallParams): Promise<Memory[]> {
-      if (!pluginInstance) throw new Error('Plugin not initialized');
-      return pluginInstance.recall(params);
+    handlers: {
+      async memory_store(params: Namespaced<MemoryStoreParams>): Promise<Memory> {
+        const { memory, params: rest } = await route<MemoryStoreParams>('memory_store', params);
+        return memory.store(rest);
+      },
+
+      async memory_update(params: Namespaced<MemoryUpdateParams>): Promise<Memory | null> {
+        const { memory, params: rest } = await route<MemoryUpdateParams>('memory_update', params);
+        return memory.update(rest);
+      },
+
+      async memory_ingest(params: Namespaced<MemoryIngestParams>): Promise<MemoryIngestResult> {
+        const { memory, params: rest } = await route<MemoryIngestParams>('memory_ingest', params);
+        return memory.ingest(rest);
+      },
+
+      async memory_recall(params: Namespaced<MemoryRecallParams>): Promise<Memory[]> {
+        const { memory, params: rest } = await route<MemoryRecallParams>('memory_recall', params);
+        return memory.recall(rest);
+      },
+
+      async memory_recall_context(params: Namespaced<MemoryRecallParams>): Promise<RecallContextResult> {
+        const { memory, params: rest } = await route<MemoryRecallParams>('memory_recall_context', params);
+        return memory.recallContext(rest);
+      },
+
+      async memory_get(params: Namespaced<MemoryGetParams>): Promise<Memory | null> {
+        const { memory, params: rest } = await route<MemoryGetParams>('memory_get', params);
+        return memory.get(rest);
+      },
+
+      async memory_list(params: Namespaced<MemoryListParams>): Promise<MemoryListResult> {
+        const { memory, params: rest } = await route<MemoryListParams>('memory_list', params);
+        return memory.list(rest);
+      },
+
+      async memory_stats(params: Namespaced<{}> = {}): Promise<MemoryStats> {
+        const { memory } = await route<{}>('memory_stats', params);
+        return memory.stats();
+      },
+
+      async memory_sessions(params: Namespaced<{ limit?: number }>): Promise<SessionInfo[]> {
+        const { memory, params: rest } = await route<{ limit?: number }>('memory_sessions', params);
+        return memory.listSessions(rest);
+      },
+
+      async memory_summarize_session(params: Namespaced<SummarizeSessionParams>): Promise<SessionSummaryResult> {
+        const { memory, params: rest } = await route<SummarizeSessionParams>('memory_summarize_session', params);
+        return memory.summarizeSession(rest);
+      },
+
+      async memory_entities(params: Namespaced<MemoryEntitiesParams>): Promise<Entity[]> {
+        const { memory, params: rest } = await route<MemoryEntitiesParams>('memory_entities', params);
+        return rest.entity
+          ? memory.relatedEntities({ entity: rest.entity, limit: rest.limit })
+          : memory.listEntities({ query: rest.query, limit: rest.limit });
+      },
+
+      async memory_forget(params: Namespaced<MemoryForgetParams>): Promise<MemoryForgetResult> {
+        const { memory, params: rest } = await route<MemoryForgetParams>('memory_forget', params);
+        return memory.forget(rest);
+      },
+
+      async memory_restore(params: Namespaced<MemoryRestoreParams>): Promise<Memory | null> {
+        const { memory, params: rest } = await route<MemoryRestoreParams>('memory_restore', params);
+        return memory.restore(rest);
+      },
+
+      async memory_export(params: Namespaced<MemoryExportParams>): Promise<{ exported: number }> {
+        const { memory, params: rest } = await route<MemoryExportParams>('memory_export', params);
+        return memory.exportMemories({ ...rest, path: transferPath('memory_export', params) });
+      },
+
+      async memory_import(params: Namespaced<MemoryImportParams>): Promise<MemoryImportResult> {
+        const { memory, params: rest } = await route<MemoryImportParams>('memory_import', params);
+        return memory.importMemories({ ...rest, path: transferPath('memory_import', params) });
+      },
     },
 
-    async memory_forget(params: MemoryForgetParams): Promise<{ deleted: number }> {
-      if (!pluginInstance) throw new Error('Plugin not initialized');
-      return pluginInstance.forget(params);
+    async shutdown(): Promise<void> {
+      const open = [...instances.values()];
+      instances.clear();
+      pluginConfig = null;
+      for (const instance of open) {
+        const memory = await instance.catch(() => null);
+        if (!memory) continue;
+        await memory.waitForIdle();
+        memory.close();
+      }
     },
-  },
+  };
+}
 
-  async shutdown(): Promise<void> {
-    if (pluginInstance) {
-      pluginInstance.close();
-      pluginInstance = null;
-    }
-  },
-};
+/**
+ * Moltbot Plugin Export
+ */
+export const plugin: MoltbotPlugin = createPlugin();
 
 export default plugin;
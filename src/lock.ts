@@ -0,0 +1,154 @@
+/**
+ * Store lock
+ *
+ * sql.js keeps the whole database in memory and every flush replaces
+ * memories.db, so two processes writing one dataDir erase each other's
+ * changes. The writer holds memories.lock: created exclusively, naming its
+ * process and host, and touched periodically while held. A lock is stale,
+ * and may be taken over, when its process is gone (same host) or it hasn't
+ * been touched for `staleMs` (another host, or a hung process).
+ */
+
+import { randomUUID } from 'crypto';
+import { closeSync, linkSync, openSync, readFileSync, renameSync, statSync, unlinkSync, utimesSync, writeSync } from 'fs';
+import { hostname } from 'os';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface LockOwner {
+  pid: number;
+  hostname: string;
+  acquiredAt: string;
+  token: string; // tells this lock apart from a later one taken by the same process
+}
+
+export class StoreLockedError extends Error {
+  constructor(
+    message: string,
+    public readonly owner: LockOwner | null
+  ) {
+    super(message);
+    this.name = 'StoreLockedError';
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Lock File
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Who holds the lock at `path`, or null if nobody (or the file is being written) */
+export function readLockOwner(path: string): LockOwner | null {
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')) as LockOwner;
+  } catch {
+    return null;
+  }
+}
+
+export function describeOwner(owner: LockOwner | null): string {
+  return owner ? `process ${owner.pid} on ${owner.hostname} (since ${owner.acquiredAt})` : 'another process';
+}
+
+function processAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0); // signal 0 only checks that the process exists
+    return true;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function isStale(owner: LockOwner | null, touchedAt: number, staleMs: number): boolean {
+  if (Date.now() - touchedAt > staleMs) return true;
+  return owner !== null && owner.hostname === hostname() && !processAlive(owner.pid);
+}
+
+/**
+ * Remove the lock at `path` if it is stale. Returns false if it is live.
+ */
+function breakStaleLock(path: string, staleMs: number): boolean {
+  let touchedAt: number;
+  try {
+    touchedAt = statSync(path).mtimeMs;
+  } catch {
+    return true; // released meanwhile
+  }
+  const owner = readLockOwner(path);
+  if (!isStale(owner, touchedAt, staleMs)) return false;
+
+  // Move it aside and check that what moved is the stale lock: another
+  // process may have broken it and taken a fresh one in between
+  const aside = `${path}.${randomUUID()}.stale`;
+  try {
+    renameSync(path, aside);
+  } catch {
+    return true;
+  }
+  const moved = readLockOwner(aside);
+  if (moved?.token !== owner?.token) {
+    try {
+      linkSync(aside, path); // put the fresh lock back, unless yet another one exists
+    } catch {
+      // Its owner finds out at its next heartbeat
+    }
+    unlinkSync(aside);
+    return false;
+  }
+  unlinkSync(aside);
+  return true;
+}
+
+export class StoreLock {
+  private constructor(
+    readonly path: string,
+    readonly owner: LockOwner
+  ) {}
+
+  /**
+   * Take the lock, breaking a stale one. Returns null if another live
+   * process holds it.
+   */
+  static tryAcquire(path: string, staleMs: number): StoreLock | null {
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const owner: LockOwner = { pid: process.pid, hostname: hostname(), acquiredAt: new Date().toISOString(), token: randomUUID() };
+      try {
+        const fd = openSync(path, 'wx');
+        try {
+          writeSync(fd, JSON.stringify(owner));
+        } finally {
+          closeSync(fd);
+        }
+        return new StoreLock(path, owner);
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+      }
+      if (!breakStaleLock(path, staleMs)) return null;
+    }
+    return null;
+  }
+
+  /**
+   * Mark the lock as alive. Returns false if it was taken over meanwhile.
+   */
+  heartbeat(): boolean {
+    if (readLockOwner(this.path)?.token !== this.owner.token) return false;
+    try {
+      const now = new Date();
+      utimesSync(this.path, now, now);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  release(): void {
+    if (readLockOwner(this.path)?.token !== this.owner.token) return;
+    try {
+      unlinkSync(this.path);
+    } catch {
+      // Already gone
+    }
+  }
+}
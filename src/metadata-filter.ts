@@ -0,0 +1,137 @@
+/**
+ * Metadata filters
+ *
+ * Compiles a `where` object into SQL over the metadata JSON column, using
+ * SQLite's JSON functions:
+ *
+ *   { project: "billing" }                    equality
+ *   { priority: { in: [1, 2] } }              any of
+ *   { reviewer: { exists: true } }            key present (any value, even null)
+ *   { "estimate.hours": { gte: 2, lt: 8 } }   numeric range, on a nested key
+ *
+ * Keys are dot-separated paths into the metadata object. Conditions on
+ * different keys, and operators within one condition, must all hold.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type MetadataValue = string | number | boolean | null;
+
+export interface MetadataOperators {
+  eq?: MetadataValue;
+  in?: MetadataValue[];
+  exists?: boolean;
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+/** A value to compare for equality, or operators */
+export type MetadataCondition = MetadataValue | MetadataOperators;
+
+export type MetadataWhere = Record<string, MetadataCondition>;
+
+type SqlValue = string | number;
+
+export interface CompiledFilter {
+  conditions: string[];
+  values: SqlValue[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Compilation
+// ─────────────────────────────────────────────────────────────────────────────
+
+const KEY_PATTERN = /^[A-Za-z0-9_-]+(?:\.[A-Za-z0-9_-]+)*$/;
+const RANGE_OPERATORS = { gt: '>', gte: '>=', lt: '<', lte: '<=' } as const;
+
+/**
+ * JSON path for a dotted key: "estimate.hours" -> $."estimate"."hours"
+ */
+function jsonPath(key: string): string {
+  if (!KEY_PATTERN.test(key)) {
+    throw new Error(`Invalid metadata key "${key}": use letters, digits, "_" and "-", with "." between nested keys`);
+  }
+  return '$' + key.split('.').map(segment => `."${segment}"`).join('');
+}
+
+function equals(column: string, path: string, value: MetadataValue): CompiledFilter {
+  if (value === null) return { conditions: [`json_type(${column}, ?) = 'null'`], values: [path] };
+  if (typeof value === 'boolean') return { conditions: [`json_type(${column}, ?) = '${value}'`], values: [path] };
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw new Error(`Invalid metadata value ${value}: numbers must be finite`);
+  }
+  // Typed comparison: "1" does not match 1
+  return { conditions: [`json_extract(${column}, ?) = ?`], values: [path, value] };
+}
+
+function isOperators(condition: MetadataCondition): condition is MetadataOperators {
+  return typeof condition === 'object' && condition !== null && !Array.isArray(condition);
+}
+
+/**
+ * Compile `where` into AND-ed conditions on `column`
+ */
+export function compileMetadataFilter(where: MetadataWhere, column = 'm.metadata'): CompiledFilter {
+  const compiled: CompiledFilter = { conditions: [], values: [] };
+  const add = (filter: CompiledFilter) => {
+    compiled.conditions.push(...filter.conditions);
+    compiled.values.push(...filter.values);
+  };
+
+  for (const [key, condition] of Object.entries(where)) {
+    const path = jsonPath(key);
+    if (!isOperators(condition)) {
+      if (Array.isArray(condition)) throw new Error(`Invalid condition for metadata key "${key}": use { in: [...] } to match a list`);
+      add(equals(column, path, condition));
+      continue;
+    }
+
+    for (const operator of Object.keys(condition)) {
+      if (operator !== 'eq' && operator !== 'in' && operator !== 'exists' && !(operator in RANGE_OPERATORS)) {
+        throw new Error(`Unknown operator "${operator}" for metadata key "${key}"`);
+      }
+    }
+
+    if (condition.eq !== undefined) add(equals(column, path, condition.eq));
+    if (condition.in !== undefined) {
+      if (!Array.isArray(condition.in)) throw new Error(`"in" for metadata key "${key}" must be an array`);
+      const options = condition.in.map(value => equals(column, path, value));
+      compiled.conditions.push(options.length > 0 ? `(${options.map(o => o.conditions[0]).join(' OR ')})` : '0');
+      compiled.values.push(...options.flatMap(o => o.values));
+    }
+    if (condition.exists !== undefined) {
+      compiled.conditions.push(`json_type(${column}, ?) IS ${condition.exists ? 'NOT NULL' : 'NULL'}`);
+      compiled.values.push(path);
+    }
+    for (const [operator, sql] of Object.entries(RANGE_OPERATORS) as [keyof typeof RANGE_OPERATORS, string][]) {
+      const bound = condition[operator];
+      if (bound === undefined) continue;
+      if (typeof bound !== 'number' || !Number.isFinite(bound)) {
+        throw new Error(`"${operator}" for metadata key "${key}" must be a finite number`);
+      }
+      // Only numbers are in range; a string "5" is not
+      compiled.conditions.push(`json_type(${column}, ?) IN ('integer', 'real') AND json_extract(${column}, ?) ${sql} ?`);
+      compiled.values.push(path, path, bound);
+    }
+  }
+
+  return compiled;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tags
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Trimmed, lowercased and de-duplicated; empty tags are dropped
+ */
+export function normalizeTags(tags: string[]): string[] {
+  if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+    throw new Error('tags must be an array of strings');
+  }
+  return [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+}
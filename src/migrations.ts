@@ -0,0 +1,271 @@
+/**
+ * SQLite schema migrations
+ *
+ * Migrations run in order during init(). Each one is applied in its own
+ * transaction together with its schema_version row, so a failure leaves the
+ * database at the last fully applied version.
+ *
+ * Append new migrations to the end of MIGRATIONS - never edit or reorder
+ * a released one.
+ */
+
+import type { Database as SqlJsDatabase } from 'sql.js';
+import { ensureFtsSchema } from './fts.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface Migration {
+  version: number;
+  description: string;
+  up: (db: SqlJsDatabase) => void;
+}
+
+export class SchemaVersionError extends Error {
+  constructor(
+    public readonly onDiskVersion: number,
+    public readonly supportedVersion: number
+  ) {
+    super(
+      `memories.db is at schema version ${onDiskVersion}, but this version of moltbot-memory-local ` +
+      `only understands up to ${supportedVersion}. Upgrade the plugin to open this database.`
+    );
+    this.name = 'SchemaVersionError';
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Migrations
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create memories table and indexes',
+    up: db => {
+      // IF NOT EXISTS: databases created before versioning already have these
+      db.run(`
+        CREATE TABLE IF NOT EXISTS memories (
+          id TEXT PRIMARY KEY,
+          text TEXT NOT NULL,
+          text_lower TEXT NOT NULL,
+          category TEXT DEFAULT 'other',
+          importance REAL DEFAULT 0.7,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          session_key TEXT,
+          metadata TEXT,
+          has_embedding INTEGER DEFAULT 0
+        )
+      `);
+
+      db.run(`CREATE INDEX IF NOT EXISTS idx_memories_category ON memories(category)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_memories_importance ON memories(importance)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_memories_created_at ON memories(created_at)`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_memories_text_lower ON memories(text_lower)`);
+    },
+  },
+  {
+    version: 2,
+    description: 'Full-text index with BM25 ranking',
+    up: db => ensureFtsSchema(db),
+  },
+  {
+    version: 3,
+    description: 'Persistence state for journal replay',
+    up: db => {
+      db.run(`
+        CREATE TABLE persist_state (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        )
+      `);
+    },
+  },
+  {
+    version: 4,
+    description: 'Persistent embedding job queue',
+    up: db => {
+      db.run(`
+        CREATE TABLE embedding_jobs (
+          memory_id TEXT PRIMARY KEY,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at INTEGER NOT NULL,
+          last_error TEXT
+        )
+      `);
+      db.run(`CREATE INDEX idx_embedding_jobs_next_attempt ON embedding_jobs(next_attempt_at)`);
+
+      // Memories whose fire-and-forget embedding never landed
+      db.run(`INSERT INTO embedding_jobs (memory_id, next_attempt_at) SELECT id, 0 FROM memories WHERE has_embedding = 0`);
+    },
+  },
+  {
+    version: 5,
+    description: 'Track the embedding model behind each vector table',
+    up: db => {
+      db.run(`
+        CREATE TABLE vector_tables (
+          name TEXT PRIMARY KEY,
+          model TEXT NOT NULL,
+          dimensions INTEGER,
+          status TEXT NOT NULL,
+          cursor TEXT,
+          started_at TEXT NOT NULL
+        )
+      `);
+    },
+  },
+  {
+    version: 6,
+    description: 'Access tracking for effective relevance',
+    up: db => {
+      db.run(`ALTER TABLE memories ADD COLUMN last_recalled_at TEXT`);
+      db.run(`ALTER TABLE memories ADD COLUMN recall_count INTEGER NOT NULL DEFAULT 0`);
+    },
+  },
+  {
+    version: 7,
+    description: 'Soft delete and append-only deletion audit log',
+    up: db => {
+      db.run(`ALTER TABLE memories ADD COLUMN deleted_at TEXT`);
+      db.run(`CREATE INDEX idx_memories_deleted_at ON memories(deleted_at)`);
+
+      // Records who removed what and why - never the text
+      db.run(`
+        CREATE TABLE audit_log (
+          seq INTEGER PRIMARY KEY AUTOINCREMENT,
+          memory_id TEXT NOT NULL,
+          action TEXT NOT NULL,
+          reason TEXT NOT NULL,
+          actor TEXT NOT NULL,
+          category TEXT,
+          at TEXT NOT NULL
+        )
+      `);
+      db.run(`CREATE INDEX idx_audit_log_memory_id ON audit_log(memory_id)`);
+      db.run(`
+        CREATE TRIGGER audit_log_no_update BEFORE UPDATE ON audit_log BEGIN
+          SELECT RAISE(ABORT, 'audit_log is append-only');
+        END
+      `);
+      db.run(`
+        CREATE TRIGGER audit_log_no_delete BEFORE DELETE ON audit_log BEGIN
+          SELECT RAISE(ABORT, 'audit_log is append-only');
+        END
+      `);
+    },
+  },
+  {
+    version: 8,
+    description: 'Entities and memory-entity links',
+    up: db => {
+      db.run(`
+        CREATE TABLE entities (
+          key TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          type TEXT,
+          created_at TEXT NOT NULL
+        )
+      `);
+      db.run(`
+        CREATE TABLE memory_entities (
+          memory_id TEXT NOT NULL,
+          entity_key TEXT NOT NULL,
+          PRIMARY KEY (memory_id, entity_key)
+        )
+      `);
+      db.run(`CREATE INDEX idx_memory_entities_entity_key ON memory_entities(entity_key)`);
+
+      // Existing memories are linked by the plugin after migrating
+      db.run(`ALTER TABLE memories ADD COLUMN entities_linked INTEGER NOT NULL DEFAULT 0`);
+
+      // Purged memories drop their links, and entities without links go with them
+      db.run(`
+        CREATE TRIGGER memories_unlink_entities AFTER DELETE ON memories BEGIN
+          DELETE FROM memory_entities WHERE memory_id = OLD.id;
+        END
+      `);
+      db.run(`
+        CREATE TRIGGER memory_entities_drop_orphans AFTER DELETE ON memory_entities BEGIN
+          DELETE FROM entities
+          WHERE key = OLD.entity_key AND NOT EXISTS (SELECT 1 FROM memory_entities WHERE entity_key = OLD.entity_key);
+        END
+      `);
+    },
+  },
+  {
+    version: 9,
+    description: 'Memory tags',
+    up: db => {
+      db.run(`
+        CREATE TABLE memory_tags (
+          memory_id TEXT NOT NULL,
+          tag TEXT NOT NULL,
+          PRIMARY KEY (memory_id, tag)
+        )
+      `);
+      db.run(`CREATE INDEX idx_memory_tags_tag ON memory_tags(tag)`);
+      db.run(`
+        CREATE TRIGGER memories_drop_tags AFTER DELETE ON memories BEGIN
+          DELETE FROM memory_tags WHERE memory_id = OLD.id;
+        END
+      `);
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Runner
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function getSchemaVersion(db: SqlJsDatabase): number {
+  db.run(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      description TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+
+  const result = db.exec('SELECT MAX(version) FROM schema_version');
+  return (result[0]?.values[0]?.[0] as number | null) ?? 0;
+}
+
+export function pendingMigrations(db: SqlJsDatabase): Migration[] {
+  const current = getSchemaVersion(db);
+  if (current > SCHEMA_VERSION) {
+    throw new SchemaVersionError(current, SCHEMA_VERSION);
+  }
+  return MIGRATIONS.filter(m => m.version > current);
+}
+
+/**
+ * Apply every pending migration. Returns the migrations that ran.
+ */
+export function runMigrations(db: SqlJsDatabase): Migration[] {
+  const pending = pendingMigrations(db);
+
+  for (const migration of pending) {
+    db.run('BEGIN');
+    try {
+      migration.up(db);
+      db.run(
+        'INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)',
+        [migration.version, migration.description, new Date().toISOString()]
+      );
+      db.run('COMMIT');
+    } catch (err) {
+      db.run('ROLLBACK');
+      throw new Error(
+        `Migration ${migration.version} (${migration.description}) failed: ${(err as Error).message}`,
+        { cause: err }
+      );
+    }
+  }
+
+  return pending;
+}
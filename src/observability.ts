@@ -0,0 +1,227 @@
+/**
+ * Observability
+ *
+ * What the plugin reports about itself:
+ * - a pluggable logger, so warnings reach the host's logs instead of stderr
+ * - typed events for each memory operation and each silent degradation
+ *   (a failed embedding, recall falling back to full-text search)
+ * - per-recall diagnostics: the search path taken and where the time went
+ * - counters and a latency histogram, rendered as Prometheus text
+ */
+
+import type { Memory } from './index.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Logging
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Matches `console`, which is the default */
+export interface Logger {
+  debug(message: string, ...details: unknown[]): void;
+  info(message: string, ...details: unknown[]): void;
+  warn(message: string, ...details: unknown[]): void;
+  error(message: string, ...details: unknown[]): void;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Recall Diagnostics
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type SearchPath = 'semantic' | 'structured' | 'hybrid';
+
+export interface RecallTimings {
+  totalMs: number;
+  embedMs?: number; // embedding the query
+  vectorSearchMs?: number; // LanceDB
+  textSearchMs?: number; // SQLite full-text and filters
+  packMs?: number; // tokenBudget selection
+}
+
+export interface RecallDiagnostics {
+  mode: 'auto' | SearchPath; // as requested
+  path: SearchPath; // what produced the results
+  fallback?: string; // why the routed path was abandoned, e.g. the vector search failed
+  dateRange?: { dateFrom?: string; dateTo?: string }; // parsed from the query
+  candidates: number; // before noise filtering, limit and tokenBudget
+  returned: number;
+  timings: RecallTimings;
+}
+
+/** Recall results; `diagnostics` is not enumerable, so the array serializes as before */
+export type RecallResults = Memory[] & { readonly diagnostics: RecallDiagnostics };
+
+/** Filled in by the search steps of one recall */
+export interface RecallTrace {
+  path: SearchPath;
+  fallback?: string;
+  timings: Omit<RecallTimings, 'totalMs'>;
+}
+
+/** Add the time since `started` (from performance.now()) to a timing */
+export function addTiming(trace: RecallTrace | undefined, timing: keyof RecallTrace['timings'], started: number): void {
+  if (trace) trace.timings[timing] = (trace.timings[timing] ?? 0) + performance.now() - started;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Events
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type FallbackOperation = 'init' | 'recall' | 'dedup';
+
+export interface MemoryEvents {
+  stored: { memory: Memory; merged: boolean }; // merged: folded into a near-duplicate
+  recalled: { query: string; memories: Memory[]; diagnostics: RecallDiagnostics };
+  forgotten: { memoryIds: string[]; permanent: boolean; reason: string; actor: string };
+  pruned: { memoryIds: string[]; permanent: boolean; reason: string }; // maxMemories, retention, end of the grace period
+  'embedding-failed': { memoryId: string; attempts: number; error: string; willRetry: boolean };
+  'fallback-used': { operation: FallbackOperation; from: string; to: string; reason: string };
+}
+
+export type MemoryEventName = keyof MemoryEvents;
+export type MemoryEventListener<E extends MemoryEventName> = (event: MemoryEvents[E]) => void;
+
+/**
+ * Listeners run synchronously. One that throws is logged and skipped, so an
+ * observer can never fail the operation it observes.
+ */
+export class MemoryEventEmitter {
+  private listeners = new Map<MemoryEventName, Set<MemoryEventListener<any>>>();
+
+  constructor(private logger: () => Logger) {}
+
+  on<E extends MemoryEventName>(event: E, listener: MemoryEventListener<E>): void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+  }
+
+  off<E extends MemoryEventName>(event: E, listener: MemoryEventListener<E>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  once<E extends MemoryEventName>(event: E, listener: MemoryEventListener<E>): void {
+    const wrapper: MemoryEventListener<E> = payload => {
+      this.off(event, wrapper);
+      listener(payload);
+    };
+    this.on(event, wrapper);
+  }
+
+  emit<E extends MemoryEventName>(event: E, payload: MemoryEvents[E]): void {
+    for (const listener of [...(this.listeners.get(event) ?? [])]) {
+      try {
+        listener(payload);
+      } catch (err) {
+        this.logger().error(`A "${event}" listener threw:`, err);
+      }
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Metrics
+// ─────────────────────────────────────────────────────────────────────────────
+
+const PREFIX = 'moltbot_memory';
+
+// Recall latency buckets, in seconds
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5];
+
+export type MetricLabels = Record<string, string>;
+
+export interface MetricSample {
+  name: string; // without the moltbot_memory_ prefix
+  help: string;
+  type: 'counter' | 'gauge';
+  values: { labels?: MetricLabels; value: number }[];
+}
+
+function labelText(labels: MetricLabels = {}): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Counters fed by the plugin's events, plus a recall latency histogram by
+ * search path. Gauges (memory counts, queue length) are read at render time.
+ */
+export class MemoryMetrics {
+  private counters = new Map<string, { help: string; values: Map<string, { labels: MetricLabels; value: number }> }>();
+  private latency = new Map<string, { buckets: number[]; sum: number; count: number }>();
+
+  constructor(events: MemoryEventEmitter) {
+    events.on('stored', e => this.count('stored_total', 'Memories stored, by whether they merged into a duplicate', { merged: String(e.merged) }));
+    events.on('recalled', e => {
+      this.count('recalls_total', 'Recall calls, by the search path that produced the results', { path: e.diagnostics.path });
+      this.observeRecall(e.diagnostics.path, e.diagnostics.timings.totalMs / 1000);
+    });
+    events.on('forgotten', e => this.count('forgotten_total', 'Memories forgotten on request', { permanent: String(e.permanent) }, e.memoryIds.length));
+    events.on('pruned', e => this.count('pruned_total', 'Memories removed by the plugin itself', { permanent: String(e.permanent) }, e.memoryIds.length));
+    events.on('embedding-failed', e => this.count('embedding_failures_total', 'Failed attempts to embed a memory', { will_retry: String(e.willRetry) }));
+    events.on('fallback-used', e => this.count('fallbacks_total', 'Times an operation fell back to a degraded path', { operation: e.operation, from: e.from, to: e.to }));
+  }
+
+  private count(name: string, help: string, labels: MetricLabels, by = 1): void {
+    let counter = this.counters.get(name);
+    if (!counter) {
+      counter = { help, values: new Map() };
+      this.counters.set(name, counter);
+    }
+    const key = labelText(labels);
+    const entry = counter.values.get(key) ?? { labels, value: 0 };
+    entry.value += by;
+    counter.values.set(key, entry);
+  }
+
+  private observeRecall(path: string, seconds: number): void {
+    let histogram = this.latency.get(path);
+    if (!histogram) {
+      histogram = { buckets: LATENCY_BUCKETS.map(() => 0), sum: 0, count: 0 };
+      this.latency.set(path, histogram);
+    }
+    LATENCY_BUCKETS.forEach((bound, i) => {
+      if (seconds <= bound) histogram!.buckets[i]++;
+    });
+    histogram.sum += seconds;
+    histogram.count++;
+  }
+
+  /**
+   * Prometheus text exposition format (version 0.0.4)
+   */
+  render(gauges: MetricSample[]): string {
+    const lines: string[] = [];
+
+    for (const [name, counter] of this.counters) {
+      lines.push(`# HELP ${PREFIX}_${name} ${counter.help}`, `# TYPE ${PREFIX}_${name} counter`);
+      for (const { labels, value } of counter.values.values()) {
+        lines.push(`${PREFIX}_${name}${labelText(labels)} ${value}`);
+      }
+    }
+
+    if (this.latency.size > 0) {
+      const name = `${PREFIX}_recall_duration_seconds`;
+      lines.push(`# HELP ${name} Recall latency, by search path`, `# TYPE ${name} histogram`);
+      for (const [path, histogram] of this.latency) {
+        LATENCY_BUCKETS.forEach((bound, i) => {
+          lines.push(`${name}_bucket${labelText({ path, le: String(bound) })} ${histogram.buckets[i]}`);
+        });
+        lines.push(`${name}_bucket${labelText({ path, le: '+Inf' })} ${histogram.count}`);
+        lines.push(`${name}_sum${labelText({ path })} ${histogram.sum}`);
+        lines.push(`${name}_count${labelText({ path })} ${histogram.count}`);
+      }
+    }
+
+    for (const gauge of gauges) {
+      lines.push(`# HELP ${PREFIX}_${gauge.name} ${gauge.help}`, `# TYPE ${PREFIX}_${gauge.name} ${gauge.type}`);
+      for (const { labels, value } of gauge.values) {
+        lines.push(`${PREFIX}_${gauge.name}${labelText(labels)} ${value}`);
+      }
+    }
+
+    return lines.join('\n') + '\n';
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Crash-safe persistence for the sql.js image
+ *
+ * sql.js keeps the whole database in memory, so durability comes from two files:
+ * - memories.db: the full image, replaced atomically (write temp file, fsync,
+ *   rename, fsync the directory)
+ * - memories.journal: an append-only log of mutations since the last image,
+ *   fsynced after every entry
+ *
+ * The image records the sequence number of the last journal entry it contains,
+ * so replaying the journal on init() skips entries that already made it in.
+ *
+ * With encryption enabled, journal lines are encrypted individually (see
+ * encryption.ts); the image is encrypted by the caller before writing.
+ */
+
+import { closeSync, existsSync, fsyncSync, ftruncateSync, openSync, readFileSync, renameSync, writeFileSync, writeSync } from 'fs';
+import { dirname } from 'path';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type JournalParam = string | number | null;
+
+export interface JournalEntry {
+  seq: number;
+  sql: string;
+  params: JournalParam[];
+}
+
+export interface LineCipher {
+  encryptLine(text: string): string;
+  decryptLine(line: string): string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Journal
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * The journal, held open for appending. Every entry is fsynced before
+ * append() returns, so a mutation that returned survives a power loss.
+ */
+export class JournalFile {
+  private fd: number | null = null;
+
+  constructor(readonly path: string) {}
+
+  append(entry: JournalEntry, cipher?: LineCipher | null): void {
+    if (this.fd === null) {
+      const created = !existsSync(this.path);
+      this.fd = openSync(this.path, 'a');
+      if (created) fsyncDirectory(dirname(this.path));
+    }
+    const line = JSON.stringify(entry);
+    writeSync(this.fd, (cipher ? cipher.encryptLine(line) : line) + '\n');
+    fsyncSync(this.fd);
+  }
+
+  /** Empty the journal once memories.db holds everything in it */
+  truncate(): void {
+    if (this.fd === null) {
+      writeFileSync(this.path, '');
+      return;
+    }
+    ftruncateSync(this.fd, 0);
+    fsyncSync(this.fd);
+  }
+
+  close(): void {
+    if (this.fd === null) return;
+    closeSync(this.fd);
+    this.fd = null;
+  }
+}
+
+/**
+ * Read all complete journal entries. A torn final line (crash mid-append)
+ * is ignored.
+ */
+export function readJournal(path: string, cipher?: LineCipher | null): JournalEntry[] {
+  if (!existsSync(path)) return [];
+
+  const entries: JournalEntry[] = [];
+  const lines = readFileSync(path, 'utf8').split('\n').filter(Boolean);
+  for (const [i, line] of lines.entries()) {
+    try {
+      entries.push(JSON.parse(cipher ? cipher.decryptLine(line) : line));
+    } catch (err) {
+      if (i === lines.length - 1) break;
+      throw new Error(`Corrupt journal entry at line ${i + 1} of ${path}`, { cause: err });
+    }
+  }
+  return entries;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Atomic Writes
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Write to `<path>.tmp`, fsync, then rename over `path` and fsync the directory
+ * so the rename itself is durable. Readers see either the old file or the new
+ * one, never a partial write.
+ */
+export function writeFileAtomic(path: string, data: Uint8Array): void {
+  const tmpPath = `${path}.tmp`;
+  const fd = openSync(tmpPath, 'w');
+  try {
+    writeSync(fd, data);
+    fsyncSync(fd);
+  } finally {
+    closeSync(fd);
+  }
+  renameSync(tmpPath, path);
+  fsyncDirectory(dirname(path));
+}
+
+function fsyncDirectory(dir: string): void {
+  let fd: number;
+  try {
+    fd = openSync(dir, 'r');
+  } catch {
+    return; // directories can't be opened everywhere (Windows)
+  }
+  try {
+    fsyncSync(fd);
+  } catch {
+    // Nor fsynced (Windows, some network filesystems)
+  } finally {
+    closeSync(fd);
+  }
+}
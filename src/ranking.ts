@@ -0,0 +1,145 @@
+/**
+ * Hybrid ranking
+ *
+ * Fuses the structured (SQLite) and semantic (LanceDB) result lists into a
+ * single ranking. Two strategies are supported:
+ * - 'rrf': reciprocal-rank fusion, only looks at each list's ordering
+ * - 'weighted': linear blend of similarity, text match, importance and recency
+ *
+ * Every fused result carries a ScoreBreakdown so callers can explain why a
+ * memory surfaced.
+ */
+
+import type { Memory } from './index.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type HybridRanker = 'rrf' | 'weighted';
+
+export interface HybridWeights {
+  similarity: number;
+  text: number;
+  importance: number;
+  recency: number;
+}
+
+export interface HybridConfig {
+  ranker?: HybridRanker;
+  weights?: Partial<HybridWeights>;
+  rrfK?: number; // RRF damping constant
+  recencyHalfLifeDays?: number;
+}
+
+export interface ScoreBreakdown {
+  ranker: HybridRanker;
+  similarity?: number; // 0-1, from vector search
+  text?: number; // 0-1, from structured search
+  importance: number;
+  recency: number; // 0-1, exponential decay on createdAt
+  semanticRank?: number; // 1-based position in the semantic list
+  structuredRank?: number; // 1-based position in the structured list
+  fused: number;
+  relevance?: number; // effective score applied after fusion (see relevance.ts)
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Defaults
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const DEFAULT_HYBRID_CONFIG: Required<Omit<HybridConfig, 'weights'>> & { weights: HybridWeights } = {
+  ranker: 'rrf',
+  weights: {
+    similarity: 0.5,
+    text: 0.2,
+    importance: 0.2,
+    recency: 0.1,
+  },
+  rrfK: 60,
+  recencyHalfLifeDays: 30,
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Scoring
+// ─────────────────────────────────────────────────────────────────────────────
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function recencyScore(createdAt: string, halfLifeDays: number, now = Date.now()): number {
+  const ageDays = Math.max(0, (now - new Date(createdAt).getTime()) / DAY_MS);
+  if (!Number.isFinite(ageDays)) return 0;
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+/**
+ * Merge structured and semantic result lists into one ranked list.
+ * Both inputs are expected to be ordered best-first; `score` on each entry is
+ * read as the text-match score (structured) or similarity (semantic).
+ */
+export function fuseResults(
+  structured: Memory[],
+  semantic: Memory[],
+  config: HybridConfig = {},
+  now = Date.now()
+): Memory[] {
+  const ranker = config.ranker ?? DEFAULT_HYBRID_CONFIG.ranker;
+  const weights = { ...DEFAULT_HYBRID_CONFIG.weights, ...config.weights };
+  const rrfK = config.rrfK ?? DEFAULT_HYBRID_CONFIG.rrfK;
+  const halfLife = config.recencyHalfLifeDays ?? DEFAULT_HYBRID_CONFIG.recencyHalfLifeDays;
+
+  const entries = new Map<string, { memory: Memory; breakdown: ScoreBreakdown }>();
+
+  const entryFor = (memory: Memory) => {
+    let entry = entries.get(memory.id);
+    if (!entry) {
+      const { score: _score, scoreBreakdown: _breakdown, ...rest } = memory;
+      entry = {
+        memory: rest,
+        breakdown: {
+          ranker,
+          importance: memory.importance,
+          recency: recencyScore(memory.createdAt, halfLife, now),
+          fused: 0,
+        },
+      };
+      entries.set(memory.id, entry);
+    }
+    return entry;
+  };
+
+  structured.forEach((memory, i) => {
+    const { breakdown } = entryFor(memory);
+    breakdown.structuredRank = i + 1;
+    breakdown.text = memory.score ?? 0;
+  });
+
+  semantic.forEach((memory, i) => {
+    const { breakdown } = entryFor(memory);
+    breakdown.semanticRank = i + 1;
+    breakdown.similarity = memory.score ?? 0;
+  });
+
+  for (const { breakdown } of entries.values()) {
+    if (ranker === 'rrf') {
+      let fused = 0;
+      if (breakdown.structuredRank) fused += 1 / (rrfK + breakdown.structuredRank);
+      if (breakdown.semanticRank) fused += 1 / (rrfK + breakdown.semanticRank);
+      breakdown.fused = fused;
+    } else {
+      breakdown.fused =
+        weights.similarity * (breakdown.similarity ?? 0) +
+        weights.text * (breakdown.text ?? 0) +
+        weights.importance * breakdown.importance +
+        weights.recency * breakdown.recency;
+    }
+  }
+
+  return [...entries.values()]
+    .sort((a, b) => b.breakdown.fused - a.breakdown.fused)
+    .map(({ memory, breakdown }) => ({
+      ...memory,
+      score: breakdown.fused,
+      scoreBreakdown: breakdown,
+    }));
+}
@@ -0,0 +1,104 @@
+/**
+ * Effective relevance
+ *
+ * A memory's stored importance is fixed at store() time. Its effective score
+ * also reflects how recently it was used and how often recall has surfaced it:
+ * - importance: as stored
+ * - recency: exponential decay since the last recall (or creation)
+ * - reinforcement: saturating growth with the recall count
+ *
+ * The same score orders unscored recall results, nudges scored ones, and
+ * decides which memories are pruned first. It is registered as the SQL
+ * function relevance() so both paths share one definition.
+ */
+
+import type { Database as SqlJsDatabase } from 'sql.js';
+import { recencyScore } from './ranking.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface RelevanceInput {
+  importance: number;
+  createdAt: string;
+  lastRecalledAt?: string;
+  recallCount: number;
+}
+
+export interface RelevanceWeights {
+  importance: number;
+  recency: number;
+  reinforcement: number;
+}
+
+export interface RelevanceConfig {
+  weights?: Partial<RelevanceWeights>;
+  halfLifeDays?: number; // recency half-life, counted from the last recall
+  reinforcementScale?: number; // recalls needed for ~63% of the reinforcement score
+  rankingWeight?: number; // 0-1, how far the effective score can move a recall score
+  decay?: (input: RelevanceInput, now: number) => number; // replaces the built-in blend; return 0-1
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Defaults
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const DEFAULT_RELEVANCE_CONFIG: Required<Omit<RelevanceConfig, 'weights' | 'decay'>> & { weights: RelevanceWeights } = {
+  weights: {
+    importance: 0.6,
+    recency: 0.25,
+    reinforcement: 0.15,
+  },
+  halfLifeDays: 30,
+  reinforcementScale: 5,
+  rankingWeight: 0.2,
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Scoring
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function effectiveScore(input: RelevanceInput, config: RelevanceConfig = {}, now = Date.now()): number {
+  if (config.decay) return config.decay(input, now);
+
+  const weights = { ...DEFAULT_RELEVANCE_CONFIG.weights, ...config.weights };
+  const halfLife = config.halfLifeDays ?? DEFAULT_RELEVANCE_CONFIG.halfLifeDays;
+  const scale = config.reinforcementScale ?? DEFAULT_RELEVANCE_CONFIG.reinforcementScale;
+
+  const lastUsed = input.lastRecalledAt && input.lastRecalledAt > input.createdAt ? input.lastRecalledAt : input.createdAt;
+  const recency = recencyScore(lastUsed, halfLife, now);
+  const reinforcement = 1 - Math.exp(-input.recallCount / scale);
+
+  const total = weights.importance + weights.recency + weights.reinforcement;
+  if (total <= 0) return input.importance;
+  return (weights.importance * input.importance + weights.recency * recency + weights.reinforcement * reinforcement) / total;
+}
+
+/**
+ * Scale a recall score by the effective score. Multiplicative, so it works for
+ * any score range (BM25, similarity, RRF) without swamping the primary signal.
+ */
+export function adjustScore(score: number, effective: number, config: RelevanceConfig = {}): number {
+  const weight = config.rankingWeight ?? DEFAULT_RELEVANCE_CONFIG.rankingWeight;
+  return score * (1 - weight + weight * effective);
+}
+
+/**
+ * Register relevance(importance, created_at, last_recalled_at, recall_count)
+ */
+export function registerRelevanceFunction(db: SqlJsDatabase, config: RelevanceConfig = {}): void {
+  db.create_function(
+    'relevance',
+    (importance: number | null, createdAt: string | null, lastRecalledAt: string | null, recallCount: number | null) =>
+      effectiveScore(
+        {
+          importance: importance ?? 0,
+          createdAt: createdAt ?? '',
+          lastRecalledAt: lastRecalledAt ?? undefined,
+          recallCount: recallCount ?? 0,
+        },
+        config
+      )
+  );
+}
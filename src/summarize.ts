@@ -0,0 +1,74 @@
+/**
+ * Session summaries
+ *
+ * Condenses the conversation memories of a session into one memory. The
+ * summarizer is pluggable (e.g. a local LLM); the default is extractive: it
+ * keeps the sentences whose words recur most across the session, in the
+ * order they were said, so nothing in a summary was not actually said.
+ */
+
+import type { Memory } from './index.js';
+import { splitSentences } from './extraction.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Returns the summary text for a session's memories (oldest first) */
+export type SessionSummarizer = (memories: Memory[], sessionKey: string) => string | Promise<string>;
+
+export interface ExtractiveSummaryOptions {
+  maxSentences?: number; // default: half the sentences, at most 5
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Extractive Summary
+// ─────────────────────────────────────────────────────────────────────────────
+
+const DEFAULT_MAX_SENTENCES = 5;
+
+// Words too common to say what a session was about
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'if', 'so', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'from', 'by', 'as',
+  'is', 'are', 'was', 'were', 'be', 'been', 'it', 'its', 'this', 'that', 'these', 'those', 'there', 'here',
+  'i', 'we', 'you', 'he', 'she', 'they', 'me', 'us', 'my', 'our', 'your', 'do', 'does', 'did', 'have', 'has', 'had',
+  'will', 'would', 'can', 'could', 'should', 'not', 'no', 'yes', 'just', 'about', 'what', 'which', 'who', 'how',
+]);
+
+function words(sentence: string): string[] {
+  return sentence.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(w => w.length > 1 && !STOPWORDS.has(w));
+}
+
+/**
+ * Pick the `maxSentences` sentences with the highest average word frequency
+ * and join them in their original order
+ */
+export function extractiveSummary(memories: Memory[], options: ExtractiveSummaryOptions = {}): string {
+  const sentences = memories.flatMap(m => splitSentences(m.text));
+  const maxSentences = options.maxSentences ?? Math.min(DEFAULT_MAX_SENTENCES, Math.ceil(sentences.length / 2));
+
+  const frequency = new Map<string, number>();
+  for (const sentence of sentences) {
+    for (const word of new Set(words(sentence))) {
+      frequency.set(word, (frequency.get(word) ?? 0) + 1);
+    }
+  }
+
+  const seen = new Set<string>();
+  const scored = sentences.flatMap((sentence, index) => {
+    const sentenceWords = words(sentence);
+    const key = sentenceWords.join(' ');
+    if (!key || seen.has(key)) return [];
+    seen.add(key);
+    const total = sentenceWords.reduce((sum, word) => sum + (frequency.get(word) ?? 0), 0);
+    // Square root: long sentences gain from more words, but not linearly
+    return [{ sentence, index, score: total / Math.sqrt(sentenceWords.length) }];
+  });
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, maxSentences)
+    .sort((a, b) => a.index - b.index)
+    .map(s => (/[.!?]$/.test(s.sentence) ? s.sentence : `${s.sentence}.`))
+    .join(' ');
+}
@@ -0,0 +1,318 @@
+/**
+ * Temporal expressions
+ *
+ * Turns phrases like "yesterday", "last week", "on monday", "in march",
+ * "2025-03-14" or "3 days ago" into a created_at range. Expressions resolve
+ * against a clock and an IANA timezone, so "yesterday" means the user's
+ * yesterday rather than UTC's. Ambiguous dates resolve to the past: memories
+ * are only ever about things that already happened.
+ *
+ * Weeks start on Monday.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface TemporalOptions {
+  now?: Date;
+  timeZone?: string; // IANA name, e.g. "Europe/Zurich"; defaults to the system zone
+}
+
+export interface TemporalRange {
+  dateFrom?: string; // ISO timestamp, inclusive
+  dateTo?: string; // ISO timestamp, inclusive
+  expression: string; // the text that was recognized
+  remainder: string; // the query with the expression removed
+}
+
+interface CivilDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+type Unit = 'day' | 'week' | 'month' | 'year';
+
+// Half-open civil date span [start, end)
+interface Span {
+  start: CivilDate;
+  end: CivilDate;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Vocabulary
+// ─────────────────────────────────────────────────────────────────────────────
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const MONTH_ABBREVIATIONS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, jun: 6, jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12,
+};
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+
+const MONTH = `(${MONTHS.join('|')}|${Object.keys(MONTH_ABBREVIATIONS).join('|')})\\.?`;
+const WEEKDAY = `(${WEEKDAYS.join('|')})`;
+const COUNT = `(\\d+|${Object.keys(NUMBER_WORDS).join('|')})`;
+const UNIT = '(day|week|month|year)s?';
+const ORDINAL = '(\\d{1,2})(?:st|nd|rd|th)?';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Calendar Arithmetic
+// ─────────────────────────────────────────────────────────────────────────────
+
+function civil(year: number, month: number, day: number): CivilDate {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function addDays(date: CivilDate, days: number): CivilDate {
+  return civil(date.year, date.month, date.day + days);
+}
+
+function addMonths(date: CivilDate, months: number): CivilDate {
+  // Clamp to the last day of the target month (Mar 31 - 1 month = Feb 28/29)
+  const lastDay = civil(date.year, date.month + months + 1, 0).day;
+  return civil(date.year, date.month + months, Math.min(date.day, lastDay));
+}
+
+function weekday(date: CivilDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+function compare(a: CivilDate, b: CivilDate): number {
+  return a.year - b.year || a.month - b.month || a.day - b.day;
+}
+
+function isValid(year: number, month: number, day: number): boolean {
+  const date = civil(year, month, day);
+  return month >= 1 && month <= 12 && date.month === month && date.day === day;
+}
+
+function startOfWeek(date: CivilDate): CivilDate {
+  return addDays(date, -((weekday(date) + 6) % 7));
+}
+
+/** The calendar period of `unit` containing `date` */
+function periodOf(date: CivilDate, unit: Unit): Span {
+  switch (unit) {
+    case 'day':
+      return { start: date, end: addDays(date, 1) };
+    case 'week': {
+      const start = startOfWeek(date);
+      return { start, end: addDays(start, 7) };
+    }
+    case 'month':
+      return { start: civil(date.year, date.month, 1), end: civil(date.year, date.month + 1, 1) };
+    case 'year':
+      return { start: civil(date.year, 1, 1), end: civil(date.year + 1, 1, 1) };
+  }
+}
+
+function shift(date: CivilDate, unit: Unit, amount: number): CivilDate {
+  switch (unit) {
+    case 'day':
+      return addDays(date, amount);
+    case 'week':
+      return addDays(date, amount * 7);
+    case 'month':
+      return addMonths(date, amount);
+    case 'year':
+      return addMonths(date, amount * 12);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Timezones
+// ─────────────────────────────────────────────────────────────────────────────
+
+function zonedParts(instant: number, timeZone: string): Record<string, number> {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(instant));
+  return Object.fromEntries(parts.filter(p => p.type !== 'literal').map(p => [p.type, Number(p.value)]));
+}
+
+function todayIn(now: Date, timeZone: string): CivilDate {
+  const { year, month, day } = zonedParts(now.getTime(), timeZone);
+  return { year, month, day };
+}
+
+/** Milliseconds the zone is ahead of UTC at `instant` */
+function zoneOffset(instant: number, timeZone: string): number {
+  const p = zonedParts(instant, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/** The instant local midnight starts on `date` */
+function startOfDay(date: CivilDate, timeZone: string): number {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day);
+  const guess = wallClock - zoneOffset(wallClock, timeZone);
+  // Re-check in case the guess crossed a DST change
+  return wallClock - zoneOffset(guess, timeZone);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Parsing
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface Rule {
+  pattern: RegExp;
+  resolve: (match: RegExpExecArray, today: CivilDate) => Span | null;
+}
+
+function count(word: string): number {
+  return NUMBER_WORDS[word] ?? Number(word);
+}
+
+function monthNumber(name: string): number {
+  const index = MONTHS.indexOf(name);
+  return index >= 0 ? index + 1 : MONTH_ABBREVIATIONS[name];
+}
+
+/** Most recent year in which month/day is not after today */
+function pastYear(month: number, day: number, today: CivilDate): number {
+  return compare({ year: today.year, month, day }, today) > 0 ? today.year - 1 : today.year;
+}
+
+function daySpan(year: number, month: number, day: number): Span | null {
+  return isValid(year, month, day) ? periodOf({ year, month, day }, 'day') : null;
+}
+
+// Checked in order; the first rule that matches wins
+const RULES: Rule[] = [
+  {
+    // 2025-03-14, 2025/3/14
+    pattern: /\b(\d{4})[-/](\d{1,2})[-/](\d{1,2})\b/,
+    resolve: m => daySpan(Number(m[1]), Number(m[2]), Number(m[3])),
+  },
+  {
+    pattern: /\b(?:the\s+)?day\s+before\s+yesterday\b/,
+    resolve: (_m, today) => periodOf(addDays(today, -2), 'day'),
+  },
+  {
+    pattern: /\byesterday\b/,
+    resolve: (_m, today) => periodOf(addDays(today, -1), 'day'),
+  },
+  {
+    pattern: /\b(?:today|tonight|this\s+(?:morning|afternoon|evening))\b/,
+    resolve: (_m, today) => periodOf(today, 'day'),
+  },
+  {
+    // "3 days ago", "a week ago": the period that far back
+    pattern: new RegExp(`\\b${COUNT}\\s+${UNIT}\\s+ago\\b`),
+    resolve: (m, today) => periodOf(shift(today, m[2] as Unit, -count(m[1])), m[2] as Unit),
+  },
+  {
+    // "in the last 3 days", "past two weeks", "past month": rolling window up to today
+    pattern: new RegExp(`\\b(?:in\\s+the\\s+|over\\s+the\\s+)?(?:last|past)\\s+(?:${COUNT}\\s+)?${UNIT}\\b`),
+    resolve: (m, today) => {
+      // "last week" without a count is the previous calendar week (next rule)
+      if (!m[1] && !/\bpast\b/.test(m[0])) return null;
+      const amount = m[1] ? count(m[1]) : 1;
+      return { start: shift(today, m[2] as Unit, -amount), end: addDays(today, 1) };
+    },
+  },
+  {
+    // "this week", "last month", "previous year": calendar periods
+    pattern: new RegExp(`\\b(this|last|previous)\\s+${UNIT}\\b`),
+    resolve: (m, today) => {
+      const unit = m[2] as Unit;
+      return periodOf(m[1] === 'this' ? today : shift(today, unit, -1), unit);
+    },
+  },
+  {
+    // "march 14", "mar 14th, 2024"
+    pattern: new RegExp(`\\b${MONTH}\\s+${ORDINAL}(?:,?\\s+(\\d{4}))?\\b`),
+    resolve: (m, today) => {
+      const month = monthNumber(m[1]);
+      const day = Number(m[2]);
+      return daySpan(m[3] ? Number(m[3]) : pastYear(month, day, today), month, day);
+    },
+  },
+  {
+    // "14 march", "14th of march 2024"
+    pattern: new RegExp(`\\b${ORDINAL}\\s+(?:of\\s+)?${MONTH}(?:,?\\s+(\\d{4}))?\\b`),
+    resolve: (m, today) => {
+      const month = monthNumber(m[2]);
+      const day = Number(m[1]);
+      return daySpan(m[3] ? Number(m[3]) : pastYear(month, day, today), month, day);
+    },
+  },
+  {
+    // "monday", "on friday", "last tuesday"
+    pattern: new RegExp(`\\b(?:(last|on|this)\\s+)?${WEEKDAY}\\b`),
+    resolve: (m, today) => {
+      let daysBack = (weekday(today) - WEEKDAYS.indexOf(m[2]) + 7) % 7;
+      if (m[1] === 'last' && daysBack === 0) daysBack = 7;
+      return periodOf(addDays(today, -daysBack), 'day');
+    },
+  },
+  {
+    // "march", "in march 2024" - bare "may" is too often a verb, so it needs "in" or a year
+    pattern: new RegExp(`\\b(?:(in|during)\\s+)?(${MONTHS.join('|')})(?:\\s+(\\d{4}))?\\b`),
+    resolve: (m, today) => {
+      if (m[2] === 'may' && !m[1] && !m[3]) return null;
+      const month = monthNumber(m[2]);
+      const year = m[3] ? Number(m[3]) : pastYear(month, 1, today);
+      return periodOf({ year, month, day: 1 }, 'month');
+    },
+  },
+];
+
+// "since monday", "before march": open-ended ranges around an expression
+const BOUND_PREFIX = /\b(since|after|before|until)\s+$/;
+
+/**
+ * Find the first temporal expression in `query` and resolve it to a range.
+ * Returns null when the query has none.
+ */
+export function parseTemporalExpression(query: string, options: TemporalOptions = {}): TemporalRange | null {
+  const now = options.now ?? new Date();
+  const timeZone = options.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const today = todayIn(now, timeZone);
+  const text = query.toLowerCase();
+
+  for (const rule of RULES) {
+    const pattern = new RegExp(rule.pattern.source, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      const span = rule.resolve(match, today);
+      if (!span) continue;
+
+      let start = match.index;
+      const from = new Date(startOfDay(span.start, timeZone)).toISOString();
+      const to = new Date(startOfDay(span.end, timeZone) - 1).toISOString();
+      let range: Pick<TemporalRange, 'dateFrom' | 'dateTo'> = { dateFrom: from, dateTo: to };
+
+      const bound = BOUND_PREFIX.exec(text.slice(0, start));
+      if (bound) {
+        start = bound.index;
+        if (bound[1] === 'since') range = { dateFrom: from };
+        if (bound[1] === 'after') range = { dateFrom: new Date(startOfDay(span.end, timeZone)).toISOString() };
+        if (bound[1] === 'before') range = { dateTo: new Date(startOfDay(span.start, timeZone) - 1).toISOString() };
+        if (bound[1] === 'until') range = { dateTo: to };
+      }
+
+      const end = match.index + match[0].length;
+      return {
+        ...range,
+        expression: query.slice(start, end),
+        remainder: `${query.slice(0, start)} ${query.slice(end)}`.replace(/\s+/g, ' ').trim(),
+      };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,162 @@
+/**
+ * Handler param validation
+ *
+ * Handlers receive params from a host and, through it, from a model, so they
+ * are checked at runtime against the same JSON schemas the host registers as
+ * tool definitions. The validator implements the subset of JSON Schema those
+ * schemas use: type, enum, required, properties, additionalProperties, items,
+ * anyOf, minimum/maximum, minLength/maxLength, minItems, pattern and the
+ * "date" and "date-time" formats.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  enum?: readonly (string | number | boolean | null)[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  pattern?: string;
+  format?: 'date' | 'date-time';
+}
+
+export interface ValidationIssue {
+  path: string; // e.g. "importance", "messages[2].role"
+  message: string;
+}
+
+export class ValidationError extends Error {
+  constructor(
+    public readonly handler: string,
+    public readonly issues: ValidationIssue[]
+  ) {
+    super(`Invalid params for ${handler}: ${issues.map(i => `${i.path || 'params'} ${i.message}`).join('; ')}`);
+    this.name = 'ValidationError';
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Validation
+// ─────────────────────────────────────────────────────────────────────────────
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})$/;
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  if (type === 'number') return (actual === 'number' || actual === 'integer') && Number.isFinite(value);
+  return actual === type;
+}
+
+function describe(value: unknown): string {
+  const text = JSON.stringify(value);
+  return text === undefined ? String(value) : text.length > 40 ? `${text.slice(0, 37)}...` : text;
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Collect every way `value` breaks `schema`; empty when it is valid
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path = ''): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const fail = (message: string) => issues.push({ path, message });
+
+  if (schema.anyOf) {
+    const options = schema.anyOf.map(option => validateSchema(value, option, path));
+    if (!options.some(o => o.length === 0)) {
+      // Report the option that got furthest, so the message is specific
+      const closest = options.reduce((best, o) => (o.length < best.length ? o : best));
+      issues.push(...closest);
+      return issues;
+    }
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      fail(`must be ${types.join(' or ')}, got ${describe(value)}`);
+      return issues;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as never)) {
+    fail(`must be one of ${schema.enum.map(describe).join(', ')}, got ${describe(value)}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) fail(`must be at least ${schema.minimum}, got ${value}`);
+    if (schema.maximum !== undefined && value > schema.maximum) fail(`must be at most ${schema.maximum}, got ${value}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) fail(`must be at most ${schema.maxLength} characters`);
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) fail(`must match ${schema.pattern}`);
+    if (schema.format === 'date' && !(DATE.test(value) && !isNaN(Date.parse(value)))) {
+      fail(`must be an ISO date (YYYY-MM-DD), got ${describe(value)}`);
+    }
+    if (schema.format === 'date-time' && !(DATE_TIME.test(value) && !isNaN(Date.parse(value)))) {
+      fail(`must be an ISO timestamp, got ${describe(value)}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) fail(`must have at least ${schema.minItems} items`);
+    if (schema.items) {
+      value.forEach((item, i) => issues.push(...validateSchema(item, schema.items!, `${path}[${i}]`)));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined) issues.push({ path: join(path, key), message: 'is required' });
+    }
+    for (const [key, property] of Object.entries(object)) {
+      if (property === undefined) continue;
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        issues.push(...validateSchema(property, propertySchema, join(path, key)));
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: join(path, key), message: 'is not a known parameter' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        issues.push(...validateSchema(property, schema.additionalProperties, join(path, key)));
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Throw a ValidationError listing every problem with `params`
+ */
+export function assertValid(handler: string, params: unknown, schema: JsonSchema): void {
+  const issues = validateSchema(params, schema);
+  if (issues.length > 0) throw new ValidationError(handler, issues);
+}
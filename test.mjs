@@ -3,8 +3,15 @@
  * Test for moltbot-memory-local (unified SQLite + embeddings)
  */
 
-import { LocalMemoryPlugin } from './dist/index.js';
-import { rmSync, existsSync } from 'fs';
+import { LocalMemoryPlugin, HashEmbeddingProvider, OpenAICompatibleEmbeddingProvider, createPlugin, parseTemporalExpression } from './dist/index.js';
+import { rmSync, existsSync, mkdirSync, readdirSync, readFileSync, statSync, utimesSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { spawnSync } from 'child_process';
+import { createServer } from 'http';
+import * as lancedb from '@lancedb/lancedb';
+import initSqlJs from 'sql.js';
+import { MIGRATIONS, SCHEMA_VERSION, getSchemaVersion, runMigrations } from './dist/migrations.js';
+import { EmbeddingQueue } from './dist/embedding-queue.js';
 
 const TEST_DIR = '/tmp/moltbot-memory-test';
 
@@ -19,7 +26,8 @@ async function test() {
 
   const memory = new LocalMemoryPlugin({ 
     dataDir: TEST_DIR,
-    enableEmbeddings: true // Test with embeddings
+    enableEmbeddings: true, // Test with embeddings
+    embeddingProvider: new HashEmbeddingProvider(), // Deterministic, no model download
   });
   
   console.log('1. Initializing (SQLite + LanceDB)...');
@@ -36,9 +44,9 @@ async function test() {
   await memory.store({ text: 'ok', category: 'conversation' }); // noise
   console.log('   ✅ Stored 6 memories\n');
 
-  // Give embeddings time to process
+  // Drain the background embedding queue
   console.log('3. Waiting for embeddings to index...');
-  await new Promise(r => setTimeout(r, 2000));
+  await memory.waitForIdle();
   console.log('   ✅ Done\n');
 
   // Test stats
@@ -49,29 +57,284 @@ async function test() {
   console.log(`   By category:`, stats.byCategory);
   console.log('   ✅ Stats working\n');
 
+  // Test reindex
+  console.log('5. Reindex memories missing vectors...');
+  const queued = memory.reindex();
+  await memory.waitForIdle();
+  console.log(`   Queued: ${queued}, with embeddings now: ${memory.stats().withEmbeddings}`);
+  if (queued !== stats.total - stats.withEmbeddings) throw new Error('Reindex should queue every memory without a vector');
+  console.log('   ✅ Reindex working\n');
+
   // Test structured/temporal recall
-  console.log('5. Temporal query: "Thursday 14:04"...');
+  console.log('6. Temporal query: "Thursday 14:04"...');
   const thursdayMemories = await memory.recall({ query: 'Thursday 14:04', mode: 'structured' });
   console.log(`   Found: ${thursdayMemories.length} memories`);
   thursdayMemories.forEach(m => console.log(`   - [${m.category}] ${m.text}`));
   console.log('   ✅ Temporal search working\n');
 
+  // Test date parsing: relative dates resolve against the configured clock
+  console.log('7. Natural-language dates: "what did we decide yesterday"...');
+  const DATES_DIR = `${TEST_DIR}-dates`;
+  rmSync(DATES_DIR, { recursive: true, force: true });
+  const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  const dated = new LocalMemoryPlugin({ dataDir: DATES_DIR, enableEmbeddings: false, clock: () => tomorrow });
+  await dated.init();
+  await dated.store({ text: 'We decided to ship the beta on Friday', category: 'decision' });
+  const yesterday = await dated.recall({ query: 'what did we decide yesterday', mode: 'structured' });
+  const lastMonth = await dated.recall({ query: 'beta', dateTo: '2000-01-01T00:00:00.000Z', mode: 'structured' });
+  console.log(`   "yesterday" (relative to a clock set to tomorrow): ${yesterday.length}, explicit dateTo in 2000: ${lastMonth.length}`);
+  if (yesterday.length !== 1 || lastMonth.length !== 0) throw new Error('Date expressions were not applied');
+  dated.close();
+  rmSync(DATES_DIR, { recursive: true });
+  // Expressions parsed directly, against a fixed Monday in Zurich (UTC+1, UTC+2 from March 29)
+  const monday = { now: new Date('2026-03-02T10:00:00Z'), timeZone: 'Europe/Zurich' };
+  const range = query => {
+    const parsed = parseTemporalExpression(query, monday);
+    return parsed && `${parsed.dateFrom ?? ''}..${parsed.dateTo ?? ''}`;
+  };
+  const expectedRanges = {
+    'what did we do last week': '2026-02-22T23:00:00.000Z..2026-03-01T22:59:59.999Z', // calendar week
+    'what did we do in the past week': '2026-02-22T23:00:00.000Z..2026-03-02T22:59:59.999Z', // rolling, up to today
+    'the call 3 days ago': '2026-02-26T23:00:00.000Z..2026-02-27T22:59:59.999Z',
+    'notes from on monday': '2026-03-01T23:00:00.000Z..2026-03-02T22:59:59.999Z', // today
+    'notes from last monday': '2026-02-22T23:00:00.000Z..2026-02-23T22:59:59.999Z',
+    'the launch on march 31': '2025-03-30T22:00:00.000Z..2025-03-31T21:59:59.999Z', // later this year, so last year's
+    'may I ask about the launch': null,
+    'what happened in may': '2025-04-30T22:00:00.000Z..2025-05-31T21:59:59.999Z',
+    'everything since monday': '2026-03-01T23:00:00.000Z..',
+    'everything before march': '..2026-02-28T22:59:59.999Z',
+    'the night of 2026-03-29': '2026-03-28T23:00:00.000Z..2026-03-29T21:59:59.999Z', // 23 hours
+    'the night of 2026-10-25': '2026-10-24T22:00:00.000Z..2026-10-25T22:59:59.999Z', // 25 hours
+  };
+  for (const [query, expected] of Object.entries(expectedRanges)) {
+    if (range(query) !== expected) throw new Error(`"${query}" parsed as ${range(query)}, expected ${expected}`);
+  }
+  if (parseTemporalExpression('everything before march', monday).remainder !== 'everything') throw new Error('Bound left in the remainder');
+  console.log(`   Parsed ${Object.keys(expectedRanges).length} expressions against a fixed clock`);
+  console.log('   ✅ Natural-language dates working\n');
+
+  // Test full-text search
+  console.log('8. Full-text search: prefix, phrase and whole words...');
+  const prefix = await memory.recall({ query: 'Winter*', mode: 'structured' });
+  const phrase = await memory.recall({ query: '"dark mode"', mode: 'structured' });
+  const partial = await memory.recall({ query: 'ark', mode: 'structured' });
+  console.log(`   Prefix "Winter*": ${prefix.length}, phrase "dark mode": ${phrase.length}, substring "ark": ${partial.length}`);
+  if (prefix.length !== 1 || phrase.length !== 1 || partial.length !== 0) throw new Error('Unexpected full-text results');
+  console.log(`   BM25 score: ${phrase[0].score.toFixed(3)}`);
+  // Common words aren't filtered out, they just weigh next to nothing
+  const question = await memory.recall({ query: 'which mode does the user prefer', mode: 'structured' });
+  if (!question[0]?.text.includes('dark mode')) throw new Error(`Common words outranked "mode": ${question[0]?.text}`);
+  console.log('   ✅ Full-text search working\n');
+
   // Test semantic recall
-  console.log('6. Semantic query: "display preferences and themes"...');
+  console.log('9. Semantic query: "display preferences and themes"...');
   const semanticMemories = await memory.recall({ query: 'display preferences and themes', mode: 'semantic' });
   console.log(`   Found: ${semanticMemories.length} memories`);
   semanticMemories.forEach(m => console.log(`   - [${m.category}] ${m.text} ${m.score ? `(score: ${m.score.toFixed(3)})` : ''}`));
   console.log('   ✅ Semantic search working\n');
 
+  // Test that semantic filters apply before the nearest-neighbour cut-off
+  console.log('10. Semantic recall with category, session and date filters...');
+  const FILTER_DIR = `${TEST_DIR}-filtered`;
+  rmSync(FILTER_DIR, { recursive: true, force: true });
+  const filtered = new LocalMemoryPlugin({ dataDir: FILTER_DIR, embeddingProvider: new HashEmbeddingProvider() });
+  await filtered.init();
+  const toppings = [];
+  for (let i = 0; i < 40; i++) {
+    toppings.push(await filtered.store({ text: `User likes pizza topping number ${i}`, category: 'fact', sessionKey: 'chat' }));
+  }
+  await filtered.store({ text: 'Chose Postgres for the ordering service', category: 'decision', sessionKey: 'planning' });
+  const flyIo = await filtered.store({ text: 'Picked Fly.io for hosting', category: 'decision', sessionKey: 'planning' });
+  await new Promise(resolve => setTimeout(resolve, 10));
+  const cutoff = new Date().toISOString();
+  await new Promise(resolve => setTimeout(resolve, 10));
+  await filtered.store({ text: 'Moved the ordering service to Kubernetes', category: 'decision', sessionKey: 'planning' });
+  await filtered.waitForIdle();
+  const pizzaQuery = { query: 'pizza topping', mode: 'semantic', limit: 3 };
+  const texts = results => results.map(m => m.text).sort();
+  const decisions = await filtered.recall({ ...pizzaQuery, category: 'decision' });
+  const planning = await filtered.recall({ ...pizzaQuery, sessionKey: 'planning' });
+  const recent = await filtered.recall({ ...pizzaQuery, category: 'decision', dateFrom: cutoff });
+  const earlier = await filtered.recall({ ...pizzaQuery, sessionKey: 'planning', dateTo: cutoff });
+  console.log(`   decision: ${decisions.length}, planning: ${planning.length}, after cutoff: ${recent.length}, before: ${earlier.length}`);
+  if (decisions.diagnostics.path !== 'semantic') throw new Error(`Filtered recall took the ${decisions.diagnostics.path} path`);
+  if (decisions.length !== 3 || decisions.some(m => m.category !== 'decision')) throw new Error('Category filter starved or leaked');
+  if (planning.length !== 3 || planning.some(m => m.sessionKey !== 'planning')) throw new Error('Session filter starved or leaked');
+  if (texts(recent).join('|') !== 'Moved the ordering service to Kubernetes') throw new Error('dateFrom filter is wrong');
+  if (texts(earlier).join('|') !== 'Chose Postgres for the ordering service|Picked Fly.io for hosting') throw new Error('dateTo filter is wrong');
+  // A category change is visible to the vector filter right away
+  await filtered.update({ memoryId: toppings[7].id, category: 'decision' });
+  await filtered.update({ memoryId: flyIo.id, category: 'fact' });
+  const recategorized = await filtered.recall({ ...pizzaQuery, category: 'decision', limit: 10 });
+  // A tag filter matching more memories than fit in one id list
+  for (let i = 0; i < 520; i++) {
+    await filtered.store({ text: `Bulk note number ${i}`, category: 'fact', tags: ['bulk'] });
+  }
+  await filtered.waitForIdle();
+  const bulk = await filtered.recall({ query: 'Bulk note number 510', mode: 'semantic', tags: ['bulk'], limit: 3 });
+  filtered.close();
+  rmSync(FILTER_DIR, { recursive: true });
+  if (!recategorized.some(m => m.id === toppings[7].id) || recategorized.some(m => m.id === flyIo.id) || recategorized.length !== 3) {
+    throw new Error('Vector filter did not follow a category change');
+  }
+  if (bulk.length !== 3 || bulk[0].text !== 'Bulk note number 510') throw new Error(`Large tag filter returned ${bulk[0]?.text}`);
+  console.log('   ✅ Filters applied before top-k\n');
+
+  // Test the embedding providers
+  console.log('11. Embedding providers...');
+  const [hashA] = await new HashEmbeddingProvider().embed(['User prefers dark mode']);
+  const [hashB] = await new HashEmbeddingProvider().embed(['User prefers dark mode']);
+  if (hashA.length !== 512 || hashA.some((v, i) => v !== hashB[i])) throw new Error('HashEmbeddingProvider is not deterministic');
+  const requests = [];
+  const server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const body = JSON.parse(raw);
+      requests.push({ method: req.method, url: req.url, authorization: req.headers.authorization, body });
+      if (body.model === 'slow') return; // never answers
+      if (body.model === 'broken') {
+        res.writeHead(503, { 'Content-Type': 'text/plain' }).end('model is loading');
+        return;
+      }
+      const inputs = body.model === 'short' ? body.input.slice(1) : body.input;
+      // Out of order on purpose: the provider must sort by index
+      const data = inputs.map((text, index) => ({ object: 'embedding', index, embedding: [index, text.length] })).reverse();
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ object: 'list', data }));
+    });
+  });
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${server.address().port}/v1/`;
+  const remote = model => new OpenAICompatibleEmbeddingProvider({ baseUrl, model, apiKey: 'sk-test', timeoutMs: 200 });
+  const remoteVectors = await remote('ok').embed(['a', 'bb', 'ccc']);
+  const failure = model => remote(model).embed(['a', 'bb']).then(() => null, err => err);
+  const [broken, short, slow] = [await failure('broken'), await failure('short'), await failure('slow')];
+  const anonymous = new OpenAICompatibleEmbeddingProvider({ baseUrl, model: 'ok' });
+  await anonymous.embed(['a']);
+  server.closeAllConnections();
+  server.close();
+  console.log(`   Remote vectors: ${JSON.stringify(remoteVectors)}`);
+  const [first] = requests;
+  if (first.method !== 'POST' || first.url !== '/v1/embeddings' || first.authorization !== 'Bearer sk-test') throw new Error('Wrong embedding request');
+  if (JSON.stringify(first.body) !== JSON.stringify({ model: 'ok', input: ['a', 'bb', 'ccc'] })) throw new Error('Wrong embedding request body');
+  if (requests.at(-1).authorization !== undefined) throw new Error('Authorization sent without an apiKey');
+  if (JSON.stringify(remoteVectors) !== '[[0,1],[1,2],[2,3]]') throw new Error('Vectors were not put back in input order');
+  if (!broken?.message.includes('503') || !broken.message.includes('model is loading')) throw new Error(`Non-2xx not reported: ${broken?.message}`);
+  if (!short?.message.includes('1 vectors for 2 inputs')) throw new Error(`Count mismatch not reported: ${short?.message}`);
+  if (slow?.name !== 'TimeoutError') throw new Error(`Slow endpoint did not time out: ${slow?.name}`);
+  console.log('   ✅ Embedding providers working\n');
+
   // Test auto-routing
-  console.log('7. Auto-routing test: "what happened last Thursday?"...');
+  console.log('12. Auto-routing test: "what happened last Thursday?"...');
   const autoMemories = await memory.recall({ query: 'what happened last Thursday?', mode: 'auto' });
   console.log(`   Routed to: structured (detected temporal query)`);
   console.log(`   Found: ${autoMemories.length} memories`);
   console.log('   ✅ Auto-routing working\n');
 
+  // Test hybrid recall
+  console.log('13. Hybrid query: "TypeScript decision for Betty"...');
+  const hybridMemories = await memory.recall({ query: 'TypeScript decision for Betty', mode: 'hybrid', ranker: 'weighted' });
+  console.log(`   Found: ${hybridMemories.length} memories`);
+  hybridMemories.forEach(m => console.log(`   - [${m.category}] ${m.text} (fused: ${m.scoreBreakdown.fused.toFixed(3)}, text: ${(m.scoreBreakdown.text ?? 0).toFixed(2)}, similarity: ${(m.scoreBreakdown.similarity ?? 0).toFixed(2)})`));
+  if (hybridMemories[0]?.category !== 'decision') throw new Error('Hybrid recall should rank the decision first');
+  console.log('   ✅ Hybrid recall working\n');
+
+  // Test update and dedup
+  console.log('14. Update and dedup...');
+  const original = await memory.store({ text: 'User prefers tabs over spaces', category: 'preference', importance: 0.6 });
+  const updated = await memory.update({ memoryId: original.id, text: 'User prefers spaces over tabs' });
+  const duplicate = await memory.store({ text: 'user prefers spaces over tabs!', category: 'preference', importance: 0.6, dedup: true });
+  console.log(`   Updated text: "${updated.text}"`);
+  console.log(`   Duplicate merged into: ${duplicate.id === original.id ? 'original' : 'new memory'} (importance ${duplicate.importance.toFixed(2)})`);
+  if (duplicate.id !== original.id || duplicate.importance <= 0.6) throw new Error('Duplicate was not merged');
+  // A short memory's duplicate is found even when many longer memories contain its words
+  const DEDUP_DIR = `${TEST_DIR}-dedup`;
+  rmSync(DEDUP_DIR, { recursive: true, force: true });
+  const deduping = new LocalMemoryPlugin({ dataDir: DEDUP_DIR, enableEmbeddings: false });
+  await deduping.init();
+  for (let i = 0; i < 25; i++) {
+    await deduping.store({ text: `Deploy on Friday, checklist item ${i}`, category: 'fact' });
+  }
+  const shortMemory = await deduping.store({ text: 'Deploy on Friday', category: 'fact' });
+  const shortDuplicate = await deduping.store({ text: 'deploy on friday.', category: 'fact', dedup: true });
+  deduping.close();
+  rmSync(DEDUP_DIR, { recursive: true });
+  if (shortDuplicate.id !== shortMemory.id) throw new Error('Duplicate of a short memory was not merged');
+  await memory.forget({ memoryId: original.id });
+
+  // An edit while the old text is being embedded must not leave the old vector behind
+  const RACE_DIR = `${TEST_DIR}-race`;
+  rmSync(RACE_DIR, { recursive: true, force: true });
+  const raceHash = new HashEmbeddingProvider();
+  let releaseEmbed = null;
+  let holdNextEmbed = true;
+  const slowProvider = {
+    id: raceHash.id,
+    embed: async texts => {
+      if (holdNextEmbed) {
+        holdNextEmbed = false;
+        await new Promise(resolve => { releaseEmbed = resolve; });
+      }
+      return raceHash.embed(texts);
+    },
+  };
+  const racing = new LocalMemoryPlugin({ dataDir: RACE_DIR, embeddingProvider: slowProvider });
+  await racing.init();
+  const pizza = await racing.store({ text: 'User loves pineapple pizza', category: 'preference' });
+  while (!releaseEmbed) await new Promise(resolve => setTimeout(resolve, 5));
+  await racing.update({ memoryId: pizza.id, text: 'User hates anchovies on salad' });
+  releaseEmbed();
+  await racing.waitForIdle();
+  const raceLance = await lancedb.connect(join(RACE_DIR, 'vectors'));
+  const raceRows = await (await raceLance.openTable((await raceLance.tableNames())[0])).query().toArray();
+  const [expectedVector] = await raceHash.embed(['User hates anchovies on salad']);
+  racing.close();
+  rmSync(RACE_DIR, { recursive: true });
+  if (raceRows.length !== 1 || [...raceRows[0].vector].some((v, i) => Math.abs(v - expectedVector[i]) > 1e-6)) {
+    throw new Error('Vector of the old text survived an edit made while embedding');
+  }
+
+  // Closing the store while a job is being embedded must not crash the process
+  const unhandled = [];
+  const onUnhandled = err => unhandled.push(err);
+  process.on('unhandledRejection', onUnhandled);
+  rmSync(RACE_DIR, { recursive: true, force: true });
+  releaseEmbed = null;
+  holdNextEmbed = true;
+  const closeLogged = [];
+  const closing = new LocalMemoryPlugin({
+    dataDir: RACE_DIR,
+    embeddingProvider: slowProvider,
+    logger: { debug() {}, info() {}, warn: (...args) => closeLogged.push(args.join(' ')), error: (...args) => closeLogged.push(args.join(' ')) },
+  });
+  await closing.init();
+  await closing.store({ text: 'User loves pineapple pizza', category: 'preference' });
+  while (!releaseEmbed) await new Promise(resolve => setTimeout(resolve, 5));
+  closing.close();
+  releaseEmbed();
+  await closing.waitForIdle();
+  await new Promise(resolve => setTimeout(resolve, 50));
+  // A backend call failing outside the embedding itself is logged, not thrown
+  const queueLogged = [];
+  const failingQueue = new EmbeddingQueue({
+    dueJobs: () => [{ memoryId: 'm1', attempts: 0, nextAttemptAt: 0 }],
+    nextDueAt: () => null,
+    process: async () => ({ failures: new Map(), superseded: [] }),
+    complete: () => { throw new Error('journal write failed'); },
+    retry() {},
+    abandon() {},
+  }, {}, () => ({ debug() {}, info() {}, warn() {}, error: (...args) => queueLogged.push(args.join(' ')) }));
+  failingQueue.kick();
+  await failingQueue.waitForIdle();
+  failingQueue.stop();
+  process.off('unhandledRejection', onUnhandled);
+  if (!queueLogged.some(line => line.includes('journal write failed'))) throw new Error('Queue failure was not logged');
+  rmSync(RACE_DIR, { recursive: true });
+  if (unhandled.length > 0 || closeLogged.length > 0) throw new Error(`Closing mid-embed failed: ${[...unhandled, ...closeLogged].join('; ')}`);
+  console.log('   ✅ Update and dedup working\n');
+
   // Test noise filtering
-  console.log('8. Noise filtering...');
+  console.log('15. Noise filtering...');
   const withNoise = await memory.recall({ query: 'ok', filterNoise: false });
   const withoutNoise = await memory.recall({ query: 'ok', filterNoise: true });
   console.log(`   Without filter: ${withNoise.length} results`);
@@ -79,12 +342,710 @@ async function test() {
   console.log('   ✅ Noise filtering working\n');
 
   // Test forget
-  console.log('9. Forget by query: "Switzerland"...');
+  console.log('16. Forget by query: "Switzerland" (dry run, trash, restore, audit)...');
+  const preview = await memory.forget({ query: 'Switzerland', dryRun: true });
+  console.log(`   Dry run would delete: ${preview.memories.map(m => m.text).join(' | ')}`);
+  if (memory.stats().total !== stats.total) throw new Error('Dry run deleted memories');
   const forgotten = await memory.forget({ query: 'Switzerland' });
   console.log(`   Deleted: ${forgotten.deleted} memories`);
   const afterForget = memory.stats();
-  console.log(`   Total now: ${afterForget.total}`);
-  console.log('   ✅ Forget working\n');
+  console.log(`   Total now: ${afterForget.total}, in trash: ${afterForget.inTrash}`);
+  const trashed = memory.listTrash().find(m => m.id === preview.memories[0].id);
+  const restored = await memory.restore({ memoryId: trashed.id });
+  if (!restored || memory.stats().total !== stats.total) throw new Error('Restore from trash failed');
+  await memory.forget({ memoryId: trashed.id, permanent: true, reason: 'user request', actor: 'test' });
+  const audit = memory.auditLog({ memoryId: trashed.id });
+  console.log(`   Audit: ${audit.map(e => `${e.action} (${e.reason})`).join(' → ')}`);
+  if (audit.map(e => e.action).join() !== 'trash,restore,purge' || JSON.stringify(audit).includes('Switzerland')) {
+    throw new Error('Unexpected audit log');
+  }
+  if (memory.stats().inTrash !== afterForget.inTrash - 1 || memory.stats().total !== stats.total - 1) throw new Error('Permanent forget failed');
+  console.log('   ✅ Forget, trash and audit working\n');
+
+  // Test access tracking: recalled memories outrank equally important ones
+  console.log('17. Access-based relevance...');
+  const ACCESS_DIR = `${TEST_DIR}-access`;
+  rmSync(ACCESS_DIR, { recursive: true, force: true });
+  const access = new LocalMemoryPlugin({ dataDir: ACCESS_DIR, flushIntervalMs: 60000, enableEmbeddings: false });
+  await access.init();
+  await access.store({ text: 'Rarely needed: the office wifi password', importance: 0.5 });
+  await access.store({ text: 'Often needed: the staging deploy command', importance: 0.5 });
+  const accessJournal = join(ACCESS_DIR, 'memories.journal');
+  const journalBefore = statSync(accessJournal).size;
+  for (let i = 0; i < 3; i++) {
+    await access.recall({ query: 'staging deploy', mode: 'structured', limit: 1 });
+  }
+  const [top] = await access.recall({ query: '', mode: 'structured', limit: 2 });
+  console.log(`   Top: ${top.text} (recalled ${top.recallCount}x, effective ${top.effectiveScore.toFixed(3)})`);
+  if (!top.text.startsWith('Often') || top.recallCount !== 4) throw new Error('Access tracking did not affect ranking');
+  // Recalls don't write the journal; the counts are saved by the next flush
+  if (statSync(accessJournal).size !== journalBefore) throw new Error('Recall wrote to the journal');
+  access.close();
+  const reopenedAccess = new LocalMemoryPlugin({ dataDir: ACCESS_DIR, enableEmbeddings: false });
+  await reopenedAccess.init();
+  const persistedCount = reopenedAccess.get({ memoryId: top.id })?.recallCount;
+  reopenedAccess.close();
+  if (persistedCount !== 4) throw new Error(`Recall count not persisted: ${persistedCount}`);
+  rmSync(ACCESS_DIR, { recursive: true });
+  console.log('   ✅ Access-based relevance working\n');
+
+  // Test ingestion: extract memories from raw conversation turns
+  console.log('18. Ingest a conversation...');
+  const INGEST_DIR = `${TEST_DIR}-ingest`;
+  rmSync(INGEST_DIR, { recursive: true, force: true });
+  const ingesting = new LocalMemoryPlugin({ dataDir: INGEST_DIR, embeddingProvider: new HashEmbeddingProvider() });
+  await ingesting.init();
+  await ingesting.store({ text: 'I prefer dark mode in every editor', category: 'preference' });
+  const ingested = await ingesting.ingest({ sessionKey: 'chat-42', messages: [
+    { role: 'system', content: 'You are a helpful assistant.' },
+    { role: 'user', content: 'So, I prefer dark mode in every editor. We decided to deploy on Fridays only. Can you check the config?' },
+    { role: 'assistant', content: 'Sure. The weather is nice today.' },
+    { role: 'user', content: 'thanks' },
+    { role: 'user', content: 'Remember that the staging password rotates monthly.\n- My email is jo@example.com' },
+  ] });
+  ingested.decisions.forEach(d => console.log(`   - ${d.action}: "${d.text}" (${d.reason})`));
+  const kept = ingested.decisions.filter(d => d.action !== 'skipped').map(d => `${d.action}:${d.category}`);
+  if (kept.join() !== 'merged:preference,stored:decision,stored:fact,stored:entity') throw new Error(`Unexpected ingest result: ${kept}`);
+  const fromChat = await ingesting.recall({ query: 'deploy Fridays', mode: 'structured', sessionKey: 'chat-42' });
+  if (fromChat[0]?.metadata?.source !== 'ingest' || ingesting.stats().total !== 4) throw new Error('Ingested memories were not stored');
+  ingesting.close();
+  rmSync(INGEST_DIR, { recursive: true });
+  console.log('   ✅ Ingestion working\n');
+
+  // Test the entity graph: links, related entities, one-hop expansion
+  console.log('19. Entity graph...');
+  const ENTITY_DIR = `${TEST_DIR}-entities`;
+  rmSync(ENTITY_DIR, { recursive: true, force: true });
+  const graph = new LocalMemoryPlugin({ dataDir: ENTITY_DIR, enableEmbeddings: false });
+  await graph.init();
+  await graph.store({ text: 'Alice leads the Betty project' });
+  await graph.store({ text: 'Alice prefers tabs over spaces', category: 'preference' });
+  await graph.store({ text: 'The Betty project ships on Postgres' });
+  await graph.store({ text: 'The on-call rota lives in the wiki', metadata: { entities: [{ name: 'Bob', type: 'person' }] } });
+  const aboutAlice = await graph.recall({ query: '', entity: 'alice' });
+  const related = graph.relatedEntities({ entity: 'Alice' });
+  const expanded = await graph.recall({ query: 'tabs', mode: 'structured', limit: 1, expandEntities: true });
+  console.log(`   About Alice: ${aboutAlice.length}, related: ${related.map(e => `${e.name} (${e.sharedMemories})`).join(', ')}`);
+  console.log(`   Expanded: ${expanded.map(m => m.relatedVia ? `${m.text} (via ${m.relatedVia})` : m.text).join(' | ')}`);
+  if (aboutAlice.length !== 2 || related[0]?.name !== 'Betty') throw new Error('Entity links missing');
+  if (expanded.length !== 2 || expanded[1].relatedVia?.[0] !== 'Alice') throw new Error('Entity expansion failed');
+  if (graph.listEntities({ query: 'bob' })[0]?.type !== 'person') throw new Error('Metadata entities not linked');
+  graph.close();
+  rmSync(ENTITY_DIR, { recursive: true });
+  console.log('   ✅ Entity graph working\n');
+
+  // Test sessions: boost, listing, summaries
+  console.log('20. Sessions and summaries...');
+  const SESSION_DIR = `${TEST_DIR}-sessions`;
+  rmSync(SESSION_DIR, { recursive: true, force: true });
+  const sessions = new LocalMemoryPlugin({ dataDir: SESSION_DIR, enableEmbeddings: false });
+  await sessions.init();
+  for (const text of [
+    'We walked through the deploy pipeline for Betty.',
+    'The deploy pipeline needs a staging step before production.',
+    'Someone mentioned the weather.',
+    'Staging deploys should run the smoke tests.',
+  ]) {
+    await sessions.store({ text, category: 'conversation', sessionKey: 'chat-1', importance: 0.4 });
+  }
+  await sessions.store({ text: 'Deploy pipeline notes from another chat', category: 'conversation', sessionKey: 'chat-2', importance: 0.4 });
+  const [boosted] = await sessions.recall({ query: 'deploy pipeline', mode: 'structured', boostSessionKey: 'chat-2' });
+  const listed = sessions.listSessions();
+  console.log(`   Sessions: ${listed.map(s => `${s.sessionKey} (${s.count})`).join(', ')}; boosted top: ${boosted.text}`);
+  if (listed.length !== 2 || listed.find(s => s.sessionKey === 'chat-1')?.count !== 4) throw new Error('Unexpected session list');
+  if (boosted.sessionKey !== 'chat-2') throw new Error('Session boost had no effect');
+  const { summary, summarized, archived } = await sessions.summarizeSession({ sessionKey: 'chat-1', archive: true, actor: 'test' });
+  console.log(`   Summary of ${summarized} (archived ${archived}): ${summary.text}`);
+  if (summarized !== 4 || archived !== 4 || summary.text.includes('weather') || summary.importance <= 0.4) throw new Error('Unexpected summary');
+  const chatOne = await sessions.recall({ query: '', sessionKey: 'chat-1' });
+  if (chatOne.length !== 1 || chatOne[0].id !== summary.id || !sessions.listSessions()[0].summarized) throw new Error('Originals were not archived');
+  sessions.close();
+  rmSync(SESSION_DIR, { recursive: true });
+  console.log('   ✅ Sessions and summaries working\n');
+
+  // Test metadata and tag filters in both search paths
+  console.log('21. Metadata and tag filters...');
+  const META_DIR = `${TEST_DIR}-metadata`;
+  rmSync(META_DIR, { recursive: true, force: true });
+  const tagged = new LocalMemoryPlugin({ dataDir: META_DIR, embeddingProvider: new HashEmbeddingProvider() });
+  await tagged.init();
+  await tagged.store({ text: 'Invoice export is broken for EU customers', metadata: { project: 'billing', priority: 1, estimate: { hours: 4 } }, tags: ['Urgent', 'bug'] });
+  await tagged.store({ text: 'Refactor the invoice templates', metadata: { project: 'billing', priority: 3, reviewer: null }, tags: ['chore'] });
+  await tagged.store({ text: 'Invoice search should be faster', metadata: { project: 'search', priority: 2, estimate: { hours: 12 } }, tags: ['urgent'] });
+  await tagged.store({ text: 'Invoice numbers start at 1000', metadata: { project: 'billing', priority: '1' } });
+  await tagged.waitForIdle();
+  const count = async params => {
+    const structured = await tagged.recall({ query: 'invoice', limit: 10, mode: 'structured', ...params });
+    const semantic = await tagged.recall({ query: 'invoice', limit: 10, mode: 'semantic', ...params });
+    if (structured.length !== semantic.length) throw new Error(`Search paths disagree on ${JSON.stringify(params)}`);
+    return structured.length;
+  };
+  const counts = [
+    await count({ where: { project: 'billing' } }),
+    await count({ where: { priority: 1 } }),
+    await count({ where: { priority: { in: [1, 2] } } }),
+    await count({ where: { reviewer: { exists: true } } }),
+    await count({ where: { 'estimate.hours': { gte: 2, lt: 8 } } }),
+    await count({ tags: ['urgent'] }),
+    await count({ tags: ['URGENT', 'bug'], where: { project: 'billing' } }),
+  ];
+  console.log(`   Matches: ${counts.join(', ')}`);
+  if (counts.join() !== '3,1,2,1,1,2,1') throw new Error('Unexpected filter results');
+  tagged.close();
+  rmSync(META_DIR, { recursive: true });
+  console.log('   ✅ Metadata and tag filters working\n');
+
+  // Test token-budget recall: packing, diversity and the context block
+  console.log('22. Token-budget recall and context block...');
+  const BUDGET_DIR = `${TEST_DIR}-budget`;
+  rmSync(BUDGET_DIR, { recursive: true, force: true });
+  const budgeted = new LocalMemoryPlugin({ dataDir: BUDGET_DIR, embeddingProvider: new HashEmbeddingProvider() });
+  await budgeted.init();
+  await budgeted.store({ text: 'Deploy the billing service on Fridays through the blue pipeline', category: 'decision' });
+  await budgeted.store({ text: 'Deploy the billing service on Fridays using the blue pipeline', category: 'decision' });
+  await budgeted.store({ text: 'We deploy the billing service on Fridays via the blue pipeline', category: 'decision' });
+  await budgeted.store({ text: 'Deploy approvals need sign-off from Carol', category: 'fact' });
+  await budgeted.store({ text: 'Long conversation about deploy ' + 'and release trains, staging, canaries and dashboards '.repeat(10), category: 'conversation' });
+  await budgeted.waitForIdle();
+  const billingQuery = { query: 'deploy billing service Fridays blue pipeline', mode: 'semantic', tokenBudget: 60 };
+  const isBilling = m => m.text.includes('billing');
+  const packed = await budgeted.recallContext(billingQuery);
+  console.log(`   ${packed.tokens} tokens:\n${packed.context.split('\n').map(l => `     ${l}`).join('\n')}`);
+  if (packed.tokens > 60 || !packed.context.startsWith('Relevant memories:\n- [decision, ')) throw new Error('Context block over budget or malformed');
+  if (packed.memories.filter(isBilling).length !== 1 || packed.memories.some(m => m.category === 'conversation')) {
+    throw new Error('Diversity did not skip near-duplicates');
+  }
+  const crowded = await budgeted.recall({ ...billingQuery, diversity: 0 });
+  if (crowded.filter(isBilling).length !== 2) throw new Error('diversity: 0 should rank by relevance only');
+  budgeted.close();
+  // A pluggable counter: whole words, no header
+  const wordCounted = new LocalMemoryPlugin({
+    dataDir: BUDGET_DIR,
+    embeddingProvider: new HashEmbeddingProvider(),
+    context: { tokenCounter: text => text.split(/\s+/).filter(Boolean).length, header: '' },
+  });
+  await wordCounted.init();
+  const words = await wordCounted.recallContext({ query: 'deploy', mode: 'structured', tokenBudget: 12 });
+  if (words.tokens > 12 || words.memories.length !== 1 || words.context.startsWith('Relevant')) throw new Error('Custom token counter ignored');
+  wordCounted.close();
+  rmSync(BUDGET_DIR, { recursive: true });
+  console.log('   ✅ Token-budget recall working\n');
+
+  // Test observability: events, recall diagnostics, the logger and metrics
+  console.log('23. Events, diagnostics and metrics...');
+  const OBS_DIR = `${TEST_DIR}-observed`;
+  rmSync(OBS_DIR, { recursive: true, force: true });
+  const hashed = new HashEmbeddingProvider();
+  let embedFails = false;
+  const flaky = { id: hashed.id, embed: texts => (embedFails ? Promise.reject(new Error('model offline')) : hashed.embed(texts)) };
+  const logged = [];
+  const logger = { debug() {}, info() {}, warn: (...args) => logged.push(args.join(' ')), error: (...args) => logged.push(args.join(' ')) };
+  const observed = new LocalMemoryPlugin({ dataDir: OBS_DIR, embeddingProvider: flaky, logger, maxMemories: 3, embeddingQueue: { maxAttempts: 1 } });
+  await observed.init();
+  const seen = [];
+  for (const event of ['stored', 'recalled', 'forgotten', 'pruned', 'embedding-failed', 'fallback-used']) {
+    observed.on(event, payload => seen.push({ event, ...payload }));
+  }
+  observed.once('stored', () => { throw new Error('listener bug'); });
+  const grafana = await observed.store({ text: 'Grafana dashboards live on the ops wiki', category: 'fact', importance: 1 });
+  for (const text of ['Standup moves to 10am', 'Lunch order is on Fridays', 'The office plant needs water']) {
+    await observed.store({ text, category: 'other', importance: 0.1 });
+  }
+  await observed.waitForIdle();
+  const found = await observed.recall({ query: 'grafana dashboards ops wiki', mode: 'semantic', limit: 1 });
+  console.log(`   ${found.diagnostics.path} in ${found.diagnostics.timings.totalMs.toFixed(1)}ms`);
+  if (found.diagnostics.path !== 'semantic' || found.diagnostics.fallback || found.diagnostics.timings.embedMs === undefined) {
+    throw new Error('Semantic recall diagnostics wrong');
+  }
+  if (JSON.stringify(found).includes('diagnostics')) throw new Error('Diagnostics leaked into the serialized results');
+  embedFails = true;
+  const degraded = await observed.recall({ query: 'grafana dashboards ops wiki', mode: 'semantic', limit: 1 });
+  if (degraded.diagnostics.path !== 'structured' || !degraded.diagnostics.fallback?.includes('model offline') || degraded[0]?.id !== grafana.id) {
+    throw new Error('Fallback to structured search not reported');
+  }
+  await observed.store({ text: 'Pager rotation changes on Mondays', category: 'fact' });
+  await observed.waitForIdle();
+  await observed.forget({ memoryId: grafana.id });
+  const eventCounts = Object.fromEntries(['stored', 'recalled', 'forgotten', 'pruned', 'embedding-failed', 'fallback-used'].map(e => [e, seen.filter(s => s.event === e).length]));
+  console.log(`   events: ${JSON.stringify(eventCounts)}`);
+  if (eventCounts.stored !== 5 || eventCounts.recalled !== 2 || eventCounts.forgotten !== 1 || eventCounts.pruned !== 2) throw new Error('Operation events missing');
+  if (!seen.some(s => s.event === 'embedding-failed' && !s.willRetry && s.error === 'model offline')) throw new Error('embedding-failed not emitted');
+  if (!seen.some(s => s.event === 'fallback-used' && s.operation === 'recall' && s.from === 'semantic')) throw new Error('fallback-used not emitted');
+  if (!logged.some(l => l.includes('listener bug')) || !logged.some(l => l.includes('Semantic search failed'))) throw new Error('Logger not used');
+  const metrics = observed.metrics();
+  for (const line of [
+    'moltbot_memory_fallbacks_total{operation="recall",from="semantic",to="structured"} 1',
+    'moltbot_memory_pruned_total{permanent="false"} 2',
+    'moltbot_memory_recall_duration_seconds_count{path="semantic"} 1',
+    'moltbot_memory_memories{state="live"} 2',
+  ]) {
+    if (!metrics.includes(`${line}\n`)) throw new Error(`Metrics missing: ${line}`);
+  }
+  observed.close();
+  rmSync(OBS_DIR, { recursive: true });
+  console.log('   ✅ Observability working\n');
+
+  // Test export/import round trip
+  console.log('24. Export and import...');
+  const EXPORT_FILE = `${TEST_DIR}-export/memories.jsonl`;
+  const IMPORT_DIR = `${TEST_DIR}-import`;
+  rmSync(IMPORT_DIR, { recursive: true, force: true });
+  const { exported } = await memory.exportMemories({ path: EXPORT_FILE, includeVectors: true });
+  const importer = new LocalMemoryPlugin({ dataDir: IMPORT_DIR, embeddingProvider: new HashEmbeddingProvider() });
+  await importer.init();
+  const firstImport = await importer.importMemories({ path: EXPORT_FILE });
+  const secondImport = await importer.importMemories({ path: EXPORT_FILE, onConflict: 'skip' });
+  console.log(`   Exported ${exported}, imported ${firstImport.imported} (${firstImport.reembedded} re-embedded), then skipped ${secondImport.skipped}`);
+  if (firstImport.imported !== exported || firstImport.reembedded !== 0 || secondImport.skipped !== exported) {
+    throw new Error('Export/import round trip failed');
+  }
+  const imported = await importer.recall({ query: 'TypeScript project', mode: 'semantic', limit: 1 });
+  if (imported[0]?.category !== 'decision') throw new Error('Imported vectors are not searchable');
+  // A bad record anywhere in the file rejects the whole import
+  const BAD_FILE = `${TEST_DIR}-export/bad.jsonl`;
+  const goodLine = JSON.stringify({ id: 'fine', text: 'A fine memory', category: 'fact', createdAt: '2026-01-01T00:00:00Z' });
+  for (const bad of [{ category: 'banana' }, { importance: 7 }]) {
+    const badLine = JSON.stringify({ id: 'bad', text: 'A bad memory', createdAt: '2026-01-01T00:00:00Z', ...bad });
+    writeFileSync(BAD_FILE, [readFileSync(EXPORT_FILE, 'utf8').split('\n')[0], goodLine, badLine, ''].join('\n'));
+    const badImport = await importer.importMemories({ path: BAD_FILE }).then(() => null, err => err.message);
+    if (!badImport?.includes(`"${Object.keys(bad)[0]}"`) || importer.stats().total !== exported) throw new Error(`Import accepted ${JSON.stringify(bad)}`);
+  }
+  // A failed export leaves no partial file behind (here the rename fails: the target is a directory)
+  const BLOCKED_EXPORT = `${TEST_DIR}-export/blocked.jsonl`;
+  mkdirSync(BLOCKED_EXPORT);
+  const blocked = await memory.exportMemories({ path: BLOCKED_EXPORT }).then(() => null, err => err.code);
+  if (!blocked || existsSync(`${BLOCKED_EXPORT}.tmp`)) throw new Error(`Failed export left its temp file (${blocked})`);
+  importer.close();
+  rmSync(IMPORT_DIR, { recursive: true });
+  rmSync(`${TEST_DIR}-export`, { recursive: true });
+  console.log('   ✅ Export and import working\n');
+
+  // Test switching embedding models
+  console.log('25. Switch embedding model...');
+  const SWITCH_DIR = `${TEST_DIR}-switch`;
+  rmSync(SWITCH_DIR, { recursive: true, force: true });
+  const before = new LocalMemoryPlugin({ dataDir: SWITCH_DIR, embeddingProvider: new HashEmbeddingProvider({ dimensions: 64 }) });
+  await before.init();
+  await before.store({ text: 'User prefers dark mode in all applications', category: 'preference' });
+  await before.store({ text: 'User lives in Winterthur, Switzerland', category: 'fact' });
+  await before.store({ text: 'Decided to use TypeScript for the Betty project', category: 'decision' });
+  await before.store({ text: 'Meeting with investors on Thursday at 14:04', category: 'conversation' });
+  await before.store({ text: 'Emma birthday party planning for next month', category: 'entity' });
+  await before.waitForIdle();
+  before.close();
+
+  // The new model embeds one batch, then stalls: recall keeps using the old table
+  const hash128 = new HashEmbeddingProvider({ dimensions: 128 });
+  let releaseBuild = null;
+  let buildBatches = 0;
+  const stalling = {
+    id: hash128.id,
+    embed: async texts => {
+      if (++buildBatches === 2) await new Promise(resolve => { releaseBuild = resolve; });
+      return hash128.embed(texts);
+    },
+  };
+  const rebuilding = new LocalMemoryPlugin({ dataDir: SWITCH_DIR, embeddingProvider: stalling, embeddingQueue: { batchSize: 2 } });
+  await rebuilding.init();
+  while (!releaseBuild) await new Promise(resolve => setTimeout(resolve, 5));
+  const duringBuild = await rebuilding.recall({ query: 'TypeScript project', mode: 'semantic', limit: 1 });
+  if (duringBuild.diagnostics.path !== 'semantic' || duringBuild[0]?.category !== 'decision') throw new Error('Recall was not served from the old table during the rebuild');
+  rebuilding.close(); // interrupted after the first batch
+  releaseBuild();
+
+  // The next init() resumes from the saved cursor instead of starting over
+  const embeddedTexts = [];
+  const counting = { id: hash128.id, embed: texts => { embeddedTexts.push(...texts); return hash128.embed(texts); } };
+  const after = new LocalMemoryPlugin({ dataDir: SWITCH_DIR, embeddingProvider: counting, embeddingQueue: { batchSize: 2 } });
+  await after.init();
+  await after.waitForIdle();
+  console.log(`   Resumed build embedded ${embeddedTexts.length} of 5 memories`);
+  if (embeddedTexts.length !== 3 || embeddedTexts.includes('User prefers dark mode in all applications')) throw new Error('Build did not resume from its cursor');
+  const switched = await after.recall({ query: 'TypeScript project', mode: 'semantic', limit: 1 });
+  console.log(`   Top result after re-embedding: ${switched[0]?.text}`);
+  if (switched[0]?.category !== 'decision' || after.stats().withEmbeddings !== 5) throw new Error('Re-embedding after model switch failed');
+  after.close();
+  rmSync(SWITCH_DIR, { recursive: true });
+  console.log('   ✅ Model switch working\n');
+
+
+  // Test multi-tenant isolation: each namespace gets its own store
+  console.log('26. Multi-tenant isolation...');
+  const TENANT_DIR = `${TEST_DIR}-tenants`;
+  rmSync(TENANT_DIR, { recursive: true, force: true });
+  const tenants = createPlugin();
+  await tenants.init({ dataDir: TENANT_DIR, multiTenant: true, embeddingProvider: new HashEmbeddingProvider() });
+  await tenants.handlers.memory_store({ namespace: 'alice', text: 'Alice prefers tabs over spaces', category: 'preference' });
+  await tenants.handlers.memory_store({ namespace: 'bob', text: 'Bob prefers spaces over tabs', category: 'preference' });
+  const aliceSees = await tenants.handlers.memory_recall({ namespace: 'alice', query: 'prefers tabs spaces', mode: 'hybrid' });
+  console.log(`   alice sees: ${aliceSees.map(m => m.text).join(' | ')}`);
+  if (aliceSees.length !== 1 || !aliceSees[0].text.startsWith('Alice')) throw new Error('Tenant data leaked across namespaces');
+  // Handler exports stay in the tenant's own exports/ folder
+  await tenants.handlers.memory_export({ namespace: 'alice', path: 'alice.jsonl' });
+  if (!existsSync(join(TENANT_DIR, 'tenants', 'alice', 'exports', 'alice.jsonl'))) throw new Error('Handler export not in exports/');
+  for (const path of ['../../alice/exports/alice.jsonl', join(TENANT_DIR, 'tenants', 'alice', 'exports', 'alice.jsonl'), 'nested/../../x.jsonl']) {
+    const traversal = await tenants.handlers.memory_import({ namespace: 'bob', path }).then(() => null, err => err.name);
+    if (traversal !== 'ValidationError') throw new Error(`memory_import accepted ${path}`);
+  }
+  const overwrite = await tenants.handlers.memory_export({ namespace: 'bob', path: '../memories.db' }).then(() => null, err => err.name);
+  if (overwrite !== 'ValidationError') throw new Error('memory_export escaped exports/');
+  await tenants.shutdown();
+  rmSync(TENANT_DIR, { recursive: true });
+  console.log('   ✅ Multi-tenant isolation working\n');
+
+  // Test plugin handlers: param validation, get, paginated list and stats
+  console.log('27. Handler validation, get, list and stats...');
+  const HANDLER_DIR = `${TEST_DIR}-handlers`;
+  rmSync(HANDLER_DIR, { recursive: true, force: true });
+  const handlers = createPlugin();
+  await handlers.init({ dataDir: HANDLER_DIR, embeddingProvider: new HashEmbeddingProvider() });
+  const rejects = async (call, path) => {
+    try {
+      await call();
+    } catch (error) {
+      if (error.name === 'ValidationError' && error.issues.some(i => i.path === path)) return error.message;
+      throw error;
+    }
+    throw new Error(`Invalid ${path} was accepted`);
+  };
+  console.log(`   ${await rejects(() => handlers.handlers.memory_store({ text: 'Too important', importance: 7 }), 'importance')}`);
+  await rejects(() => handlers.handlers.memory_store({ text: 'Odd category', category: 'gossip' }), 'category');
+  await rejects(() => handlers.handlers.memory_recall({ query: 'x', dateFrom: 'last week' }), 'dateFrom');
+  await rejects(() => handlers.handlers.memory_recall({ query: 'x', colour: 'blue' }), 'colour');
+  await rejects(() => handlers.handlers.memory_list({ cursor: 'not-a-cursor' }), 'cursor');
+  if (!handlers.schemas.memory_list.parameters.properties.cursor) throw new Error('Handler schemas missing');
+  const paged = [];
+  for (let i = 1; i <= 5; i++) {
+    paged.push(await handlers.handlers.memory_store({ text: `Paged note number ${i}`, category: 'fact', dedup: false }));
+  }
+  const fetched = await handlers.handlers.memory_get({ memoryId: paged[2].id });
+  if (fetched?.text !== 'Paged note number 3' || (await handlers.handlers.memory_get({ memoryId: 'missing' })) !== null) {
+    throw new Error('memory_get failed');
+  }
+  const pages = [];
+  let cursor;
+  do {
+    const page = await handlers.handlers.memory_list({ limit: 2, ...(cursor ? { cursor } : {}) });
+    pages.push(page.memories.map(m => m.id));
+    cursor = page.nextCursor;
+  } while (cursor);
+  console.log(`   pages: ${pages.map(p => p.length).join(', ')}`);
+  if (pages.flat().sort().join() !== paged.map(m => m.id).sort().join() || pages.length !== 3) throw new Error('memory_list pagination failed');
+  const handlerStats = await handlers.handlers.memory_stats();
+  if (handlerStats.total !== 5 || handlerStats.byCategory.fact !== 5) throw new Error('memory_stats failed');
+  // A date-only dateTo covers that whole day; offset timestamps mean the instant they name
+  const inZone = (ms, hours) => new Date(ms + hours * 3600000).toISOString()
+    .replace(/\.\d+Z$/, `${hours < 0 ? '-' : '+'}${String(Math.abs(hours)).padStart(2, '0')}:00`);
+  const halfHour = 30 * 60 * 1000;
+  const dateCases = [
+    [{ dateTo: new Date().toISOString().slice(0, 10) }, 5],
+    [{ dateFrom: inZone(Date.now() - halfHour, 2) }, 5],
+    [{ dateTo: inZone(Date.now() + halfHour, -5) }, 5],
+    [{ dateFrom: inZone(Date.now() + halfHour, -5) }, 0],
+  ];
+  for (const [dates, expected] of dateCases) {
+    for (const mode of ['structured', 'semantic']) {
+      const inRange = await handlers.handlers.memory_recall({ query: 'Paged note', mode, limit: 10, ...dates });
+      if (inRange.length !== expected) throw new Error(`${mode} recall with ${JSON.stringify(dates)} found ${inRange.length}, expected ${expected}`);
+    }
+  }
+  // memory_update: null clears sessionKey and metadata, omitting them leaves them alone
+  const standup = await handlers.handlers.memory_store({ text: 'Standup moved to 10am', sessionKey: 'chat-9', metadata: { source: 'calendar' } });
+  const untouched = await handlers.handlers.memory_update({ memoryId: standup.id, importance: 0.9 });
+  if (untouched.sessionKey !== 'chat-9' || untouched.metadata?.source !== 'calendar') throw new Error('Update dropped untouched fields');
+  await rejects(() => handlers.handlers.memory_update({ memoryId: standup.id, sessionKey: 42 }), 'sessionKey');
+  await handlers.handlers.memory_update({ memoryId: standup.id, sessionKey: null, metadata: null });
+  const cleared = await handlers.handlers.memory_get({ memoryId: standup.id });
+  if (cleared.sessionKey !== undefined || cleared.metadata !== undefined || cleared.importance !== 0.9) {
+    throw new Error(`Update did not clear fields: ${JSON.stringify(cleared)}`);
+  }
+  await handlers.shutdown();
+  rmSync(HANDLER_DIR, { recursive: true });
+  console.log('   ✅ Handlers and validation working\n');
+
+  // Test encryption at rest: no plaintext on disk, wrong keys fail loudly
+  console.log('28. Encryption at rest...');
+  const ENC_DIR = `${TEST_DIR}-encrypted`;
+  rmSync(ENC_DIR, { recursive: true, force: true });
+  const secret = 'The launch code is tangerine';
+  const containsSecret = dir => readdirSync(dir, { recursive: true })
+    .map(f => join(dir, f))
+    .some(f => statSync(f).isFile() && readFileSync(f).includes('tangerine'));
+  const encrypted = new LocalMemoryPlugin({ dataDir: ENC_DIR, encryptionKey: 'correct horse', flushIntervalMs: 60000, embeddingProvider: new HashEmbeddingProvider() });
+  await encrypted.init();
+  await encrypted.store({ text: secret, category: 'fact' });
+  await encrypted.waitForIdle();
+  const journalIsPlain = containsSecret(ENC_DIR);
+  encrypted.close();
+  if (journalIsPlain || containsSecret(ENC_DIR)) throw new Error('Plaintext found on disk');
+  const openWith = async encryptionKey => {
+    const store = new LocalMemoryPlugin({ dataDir: ENC_DIR, encryptionKey, enableEmbeddings: false });
+    try {
+      await store.init();
+      return store;
+    } catch (err) {
+      return err.name;
+    }
+  };
+  const wrongKey = await openWith('wrong horse');
+  const noKey = await openWith(undefined);
+  const reopened = await openWith(() => Promise.resolve('correct horse'));
+  await reopened.rotateEncryptionKey('battery staple');
+  const recalled = (await reopened.recall({ query: 'launch code', mode: 'structured' }))[0]?.text;
+  reopened.close();
+  const oldKeyAfterRotation = await openWith('correct horse');
+  const rotated = await openWith('battery staple');
+  console.log(`   Wrong key: ${wrongKey}, no key: ${noKey}, old key after rotation: ${oldKeyAfterRotation}`);
+  if (wrongKey !== 'EncryptionKeyError' || noKey !== 'EncryptionKeyError' || oldKeyAfterRotation !== 'EncryptionKeyError') {
+    throw new Error('Opening with a wrong key should fail');
+  }
+  if (recalled !== secret || rotated.stats().total !== 1) throw new Error('Encrypted store lost data');
+  // Exports are encrypted with the store's key
+  const ENC_EXPORT = join(ENC_DIR, 'exports', 'backup.jsonl');
+  await rotated.exportMemories({ path: ENC_EXPORT });
+  if (readFileSync(ENC_EXPORT).includes('tangerine')) throw new Error('Export of an encrypted store is plaintext');
+  const ENC_IMPORT_DIR = `${TEST_DIR}-encrypted-import`;
+  rmSync(ENC_IMPORT_DIR, { recursive: true, force: true });
+  const keyless = new LocalMemoryPlugin({ dataDir: ENC_IMPORT_DIR, enableEmbeddings: false });
+  await keyless.init();
+  const keylessImport = await keyless.importMemories({ path: ENC_EXPORT }).then(() => null, err => err.name);
+  keyless.close();
+  rmSync(ENC_IMPORT_DIR, { recursive: true });
+  const keyed = new LocalMemoryPlugin({ dataDir: ENC_IMPORT_DIR, encryptionKey: 'battery staple', enableEmbeddings: false });
+  await keyed.init();
+  const keyedImport = await keyed.importMemories({ path: ENC_EXPORT });
+  keyed.close();
+  rmSync(ENC_IMPORT_DIR, { recursive: true });
+  if (keylessImport !== 'EncryptionKeyError' || keyedImport.imported !== 1) throw new Error('Encrypted export did not round-trip');
+  rotated.close();
+  rmSync(ENC_DIR, { recursive: true });
+  console.log('   ✅ Encryption at rest working\n');
+
+  // Test schema migrations: refuse newer files, back up and upgrade older ones
+  console.log('29. Schema migrations...');
+  const MIGRATE_DIR = `${TEST_DIR}-migrate`;
+  const MIGRATE_DB = join(MIGRATE_DIR, 'memories.db');
+  const SQL = await initSqlJs();
+  const backups = () => readdirSync(MIGRATE_DIR).filter(name => /^memories\.db\.v\d+-.*\.bak$/.test(name));
+  const schemaVersionOf = bytes => {
+    const db = new SQL.Database(bytes);
+    const version = getSchemaVersion(db);
+    db.close();
+    return version;
+  };
+  // A v1 database: the memories table and nothing else
+  const v1File = extra => {
+    const db = new SQL.Database();
+    getSchemaVersion(db);
+    MIGRATIONS[0].up(db);
+    db.run(`INSERT INTO schema_version VALUES (1, 'v1', '2025-01-01T00:00:00Z')`);
+    db.run(`INSERT INTO memories (id, text, text_lower, category, importance, created_at, updated_at)
+            VALUES ('old', 'Old memory about the lighthouse', 'old memory about the lighthouse', 'fact', 0.8, '2025-01-01T00:00:00Z', '2025-01-01T00:00:00Z')`);
+    extra?.(db);
+    const bytes = Buffer.from(db.export());
+    db.close();
+    return bytes;
+  };
+  const openMigrated = async () => {
+    const plugin = new LocalMemoryPlugin({ dataDir: MIGRATE_DIR, enableEmbeddings: false });
+    return plugin.init().then(() => plugin, err => { plugin.close(); throw err; });
+  };
+
+  // Newer than this plugin: refused, file untouched
+  rmSync(MIGRATE_DIR, { recursive: true, force: true });
+  const current = new LocalMemoryPlugin({ dataDir: MIGRATE_DIR, enableEmbeddings: false });
+  await current.init();
+  current.close();
+  const futureDb = new SQL.Database(readFileSync(MIGRATE_DB));
+  futureDb.run(`INSERT INTO schema_version VALUES (?, 'from the future', '2030-01-01T00:00:00Z')`, [SCHEMA_VERSION + 1]);
+  const futureBytes = Buffer.from(futureDb.export());
+  futureDb.close();
+  writeFileSync(MIGRATE_DB, futureBytes);
+  const newer = await openMigrated().then(() => null, err => err);
+  if (newer?.name !== 'SchemaVersionError' || newer.onDiskVersion !== SCHEMA_VERSION + 1) throw new Error('A newer schema was not refused');
+  if (!readFileSync(MIGRATE_DB).equals(futureBytes) || backups().length > 0) throw new Error('Refusing a newer schema touched the file');
+
+  // v1: backed up, then upgraded
+  rmSync(MIGRATE_DIR, { recursive: true, force: true });
+  mkdirSync(MIGRATE_DIR);
+  const v1Bytes = v1File();
+  writeFileSync(MIGRATE_DB, v1Bytes);
+  const upgraded = await openMigrated();
+  const lighthouse = await upgraded.recall({ query: 'lighthouse', mode: 'structured' });
+  upgraded.close();
+  const [v1Backup] = backups();
+  console.log(`   v1 → v${schemaVersionOf(readFileSync(MIGRATE_DB))}, backup ${v1Backup}`);
+  if (!v1Backup?.startsWith('memories.db.v1-') || !readFileSync(join(MIGRATE_DIR, v1Backup)).equals(v1Bytes)) throw new Error('No backup of the v1 file');
+  if (schemaVersionOf(readFileSync(MIGRATE_DB)) !== SCHEMA_VERSION || lighthouse[0]?.id !== 'old') throw new Error('v1 file was not upgraded');
+  // The backup lasts as long as the trash grace period
+  const retaining = await openMigrated();
+  retaining.enforceRetention();
+  const keptBackup = backups().length;
+  const graceEnded = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000);
+  utimesSync(join(MIGRATE_DIR, v1Backup), graceEnded, graceEnded);
+  retaining.enforceRetention();
+  retaining.close();
+  if (keptBackup !== 1 || backups().length !== 0) throw new Error('Backup was not kept for, then deleted after, the grace period');
+
+  // A failing migration rolls back: migration 7 creates audit_log, which already exists here
+  const clash = db => db.run('CREATE TABLE audit_log (note TEXT)');
+  rmSync(MIGRATE_DIR, { recursive: true, force: true });
+  mkdirSync(MIGRATE_DIR);
+  const clashBytes = v1File(clash);
+  writeFileSync(MIGRATE_DB, clashBytes);
+  const failedInit = await openMigrated().then(() => null, err => err.message);
+  if (!failedInit?.startsWith('Migration 7') || !readFileSync(MIGRATE_DB).equals(clashBytes)) throw new Error('Failed migration changed memories.db');
+  const [clashBackup] = backups();
+  if (!clashBackup?.startsWith('memories.db.v1-') || !readFileSync(join(MIGRATE_DIR, clashBackup)).equals(clashBytes)) throw new Error('Failed migration left no backup');
+  const clashDb = new SQL.Database(clashBytes);
+  const failedRun = (() => { try { runMigrations(clashDb); } catch (err) { return err.message; } })();
+  const columns = clashDb.exec('PRAGMA table_info(memories)')[0].values.map(column => column[1]);
+  const stoppedAt = getSchemaVersion(clashDb);
+  clashDb.close();
+  rmSync(MIGRATE_DIR, { recursive: true });
+  console.log(`   Clashing migration stopped at v${stoppedAt}: ${failedRun}`);
+  if (stoppedAt !== 6 || columns.includes('deleted_at') || !columns.includes('recall_count')) throw new Error('Failed migration was not rolled back');
+  console.log('   ✅ Schema migrations working\n');
+
+  // Test crash recovery: unflushed writes are replayed from the journal
+  console.log('30. Crash recovery from the write-ahead journal...');
+  const CRASH_DIR = `${TEST_DIR}-crash`;
+  // A process killed after storing: the debounced write never happened
+  const crash = spawnSync(process.execPath, ['--input-type=module', '-e', `
+    import { LocalMemoryPlugin } from './dist/index.js';
+    const crashing = new LocalMemoryPlugin({ dataDir: ${JSON.stringify(CRASH_DIR)}, enableEmbeddings: false, flushIntervalMs: 60000 });
+    await crashing.init();
+    await crashing.store({ text: 'Written just before the crash', category: 'fact' });
+    process.kill(process.pid, 'SIGKILL');
+  `], { encoding: 'utf8', timeout: 60000 });
+  if (crash.signal !== 'SIGKILL') throw new Error(`Crashing process did not run: ${crash.stderr}`);
+  const recovered = new LocalMemoryPlugin({ dataDir: CRASH_DIR, enableEmbeddings: false });
+  await recovered.init();
+  // The dead process's lock is stale, so this instance takes over as the writer
+  if (recovered.isReadOnly()) throw new Error('Stale lock was not taken over');
+  const recoveredTotal = recovered.stats().total;
+  console.log(`   Recovered: ${recoveredTotal} memories`);
+  if (recoveredTotal !== 1) throw new Error('Journal was not replayed');
+  recovered.close();
+  rmSync(CRASH_DIR, { recursive: true });
+  console.log('   ✅ Crash recovery working\n');
+
+  // Test multi-process access: one writer holds the lock, readers follow its changes
+  console.log('31. Writer lock and read-only instances...');
+  const SHARED_DIR = `${TEST_DIR}-shared`;
+  rmSync(SHARED_DIR, { recursive: true, force: true });
+  const writer = new LocalMemoryPlugin({ dataDir: SHARED_DIR, embeddingProvider: new HashEmbeddingProvider(), flushIntervalMs: 60000 });
+  await writer.init();
+  await writer.store({ text: 'The staging cluster runs in Frankfurt', category: 'fact' });
+  await writer.waitForIdle();
+  const reader = new LocalMemoryPlugin({ dataDir: SHARED_DIR, embeddingProvider: new HashEmbeddingProvider(), reloadIntervalMs: 50 });
+  await reader.init();
+  const readerWrite = await reader.store({ text: 'Never written', category: 'fact' }).catch(err => err.name);
+  const strictWriter = await new LocalMemoryPlugin({ dataDir: SHARED_DIR, access: 'write', enableEmbeddings: false }).init().catch(err => err.name);
+  console.log(`   reader store: ${readerWrite}, second writer: ${strictWriter}`);
+  if (!reader.isReadOnly() || writer.isReadOnly() || readerWrite !== 'StoreLockedError' || strictWriter !== 'StoreLockedError') {
+    throw new Error('Second instance was allowed to write');
+  }
+  // Not flushed yet: the reader replays it from the journal
+  await writer.store({ text: 'Production moved to Zurich last quarter', category: 'fact' });
+  await writer.waitForIdle();
+  await new Promise(resolve => setTimeout(resolve, 500));
+  const followed = await reader.recall({ query: 'production zurich', mode: 'semantic', limit: 1 });
+  if (reader.stats().total !== 2 || followed.diagnostics.path !== 'semantic' || !followed[0]?.text.includes('Zurich')) {
+    throw new Error("Reader did not pick up the writer's changes");
+  }
+  reader.close();
+  writer.close();
+  if (existsSync(join(SHARED_DIR, 'memories.lock'))) throw new Error('Lock not released on close()');
+  const nextWriter = new LocalMemoryPlugin({ dataDir: SHARED_DIR, enableEmbeddings: false });
+  await nextWriter.init();
+  if (nextWriter.isReadOnly() || nextWriter.stats().total !== 2) throw new Error('Lock not available after the writer closed');
+  nextWriter.close();
+  rmSync(SHARED_DIR, { recursive: true });
+  console.log('   ✅ Multi-process access working\n');
+
+  // Test vector consistency: drift between SQLite and LanceDB is found and repaired
+  console.log('32. Vector consistency check and repair...');
+  const DRIFT_DIR = `${TEST_DIR}-drift`;
+  rmSync(DRIFT_DIR, { recursive: true, force: true });
+  let drifting = new LocalMemoryPlugin({ dataDir: DRIFT_DIR, embeddingProvider: new HashEmbeddingProvider() });
+  await drifting.init();
+  const driftIds = [];
+  for (let i = 1; i <= 12; i++) {
+    driftIds.push((await drifting.store({ text: `Drift check memory number ${i}`, category: 'fact' })).id);
+  }
+  await drifting.waitForIdle();
+  const lance = await lancedb.connect(join(DRIFT_DIR, 'vectors'));
+  const [vectorTable] = await lance.tableNames();
+  const vectors = await lance.openTable(vectorTable);
+  const [someRow] = await vectors.query().limit(1).toArray();
+  await vectors.add([{ id: 'ghost', vector: Array.from(someRow.vector), category: 'fact', created_at: '', session_key: '' }]);
+  await vectors.delete(`id = '${driftIds[0]}'`);
+  const drift = await drifting.verify();
+  console.log(`   verify: ${drift.orphanVectors.length} orphan, ${drift.missingVectors.length} missing`);
+  if (drift.consistent || drift.orphanVectors.join() !== 'ghost' || drift.missingVectors.join() !== driftIds[0]) {
+    throw new Error('verify() missed drift');
+  }
+  await drifting.repair();
+  await drifting.waitForIdle();
+  if (!(await drifting.verify()).consistent || drifting.stats().withEmbeddings !== 12) throw new Error('repair() left drift behind');
+  drifting.close();
+  // Vectors of the wrong size, repaired at init()
+  await vectors.checkoutLatest();
+  const rows = await vectors.query().limit(100).toArray();
+  await lance.createTable(vectorTable, rows.map(r => ({
+    id: r.id, vector: Array.from(r.vector).slice(0, 8), category: r.category, created_at: r.created_at, session_key: r.session_key,
+  })), { mode: 'overwrite' });
+  lance.close();
+  drifting = new LocalMemoryPlugin({ dataDir: DRIFT_DIR, embeddingProvider: new HashEmbeddingProvider(), verifyOnInit: 'repair' });
+  await drifting.init();
+  await drifting.waitForIdle();
+  const driftFound = await drifting.recall({ query: 'drift check memory number 7', mode: 'semantic', limit: 1 });
+  if (!(await drifting.verify()).consistent || drifting.stats().withEmbeddings !== 12 || !driftFound[0]) {
+    throw new Error('verifyOnInit did not rebuild the vector table');
+  }
+  drifting.close();
+  rmSync(DRIFT_DIR, { recursive: true });
+  console.log('   ✅ Vector consistency working\n');
+
+  // Test the CLI against a store made by the library
+  console.log('33. Command-line tool...');
+  const CLI_DIR = `${TEST_DIR}-cli`;
+  rmSync(CLI_DIR, { recursive: true, force: true });
+  const seeded = new LocalMemoryPlugin({ dataDir: CLI_DIR, embeddingProvider: new HashEmbeddingProvider() });
+  await seeded.init();
+  await seeded.store({ text: 'Decided to deploy on Fridays with the blue pipeline', category: 'decision' });
+  await seeded.store({ text: 'User prefers dark mode in the terminal', category: 'preference' });
+  await seeded.waitForIdle();
+  seeded.close();
+  const cli = (...args) => {
+    const run = spawnSync(process.execPath, ['dist/cli.js', '--data-dir', CLI_DIR, ...args], { encoding: 'utf8', timeout: 60000 });
+    return { status: run.status, stdout: run.stdout, stderr: run.stderr };
+  };
+  const cliJson = (...args) => {
+    const run = cli('--json', ...args);
+    if (run.status !== 0) throw new Error(`moltbot-memory ${args.join(' ')} failed: ${run.stderr}`);
+    return JSON.parse(run.stdout);
+  };
+  const cliStats = cliJson('stats');
+  // Opened with the store's own model: no re-embedding was started
+  if (cliStats.total !== 2 || cliStats.embeddingModel !== 'hash:512') throw new Error('CLI stats failed');
+  const cliFound = cliJson('search', 'deploy', 'pipeline', '--mode', 'semantic', '--limit', '1');
+  if (cliFound[0]?.category !== 'decision') throw new Error('CLI search failed');
+  if (cliJson('get', cliFound[0].id).text !== cliFound[0].text) throw new Error('CLI get failed');
+  const forgetPreview = cliJson('forget', '--query', 'dark mode terminal', '--dry-run');
+  if (forgetPreview.deleted !== 1 || cliJson('stats').total !== 2) throw new Error('CLI forget --dry-run deleted something');
+  const checks = cliJson('doctor');
+  console.log(`   doctor: ${checks.map(c => `${c.name} ${c.status}`).join(', ')}`);
+  if (checks.some(c => c.status !== 'ok')) throw new Error('CLI doctor reported problems');
+  cliJson('vacuum');
+  const table = cli('stats');
+  if (!/with embeddings\s+2/.test(table.stdout)) throw new Error('CLI table output failed');
+  const badFlag = cli('search', 'x', '--from', 'last week');
+  if (badFlag.status !== 2 || !badFlag.stderr.includes('dateFrom')) throw new Error('CLI accepted an invalid date');
+  if (cli('get', 'missing').status !== 1) throw new Error('CLI get of a missing id did not fail');
+  rmSync(CLI_DIR, { recursive: true });
+  console.log('   ✅ Command-line tool working\n');
 
   // Cleanup
   memory.close();